@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { TelemetryErrorBoundary, type FallbackProps, type TelemetryErrorBoundaryProps } from "./TelemetryErrorBoundary";
+
+type CaptureRenderError = TelemetryErrorBoundaryProps["telemetry"]["captureRenderError"];
+
+// No DOM renderer in this suite: drive the lifecycle React would run after a child throws.
+function crash(props: Partial<TelemetryErrorBoundaryProps> = {}) {
+  const telemetry = { captureRenderError: vi.fn<CaptureRenderError>(async () => undefined) };
+  const boundary = new TelemetryErrorBoundary({ telemetry, children: "app", ...props });
+  boundary.setState = (update: any) => { boundary.state = { ...boundary.state, ...update }; };
+
+  const error = new Error("Cannot read properties of undefined (reading 'total')");
+  boundary.state = TelemetryErrorBoundary.getDerivedStateFromError(error);
+  boundary.componentDidCatch(error, { componentStack: "\n    in CartSummary\n    in CartScreen\n    in App" });
+  return { boundary, telemetry, error };
+}
+
+describe("TelemetryErrorBoundary", () => {
+  it("renders its children until something throws", () => {
+    const telemetry = { captureRenderError: vi.fn() };
+    expect(new TelemetryErrorBoundary({ telemetry, children: "app" }).render()).toBe("app");
+  });
+
+  it("reports the error with its component stack and renders the fallback", () => {
+    const { boundary, telemetry, error } = crash({ fallback: "Something went wrong" });
+
+    expect(telemetry.captureRenderError).toHaveBeenCalledWith(error, {
+      componentStack: "\n    in CartSummary\n    in CartScreen\n    in App",
+      fallbackRendered: true,
+    });
+    expect(boundary.render()).toBe("Something went wrong");
+  });
+
+  it("hands a fallback function the error and a reset that re-renders the children", () => {
+    const fallback = vi.fn(({ error }: FallbackProps) => `failed: ${error.message}`);
+    const { boundary } = crash({ fallback });
+
+    expect(boundary.render()).toBe("failed: Cannot read properties of undefined (reading 'total')");
+    expect(fallback).toHaveBeenCalledOnce();
+    const [props] = fallback.mock.calls[0];
+    props.resetError();
+    expect(boundary.render()).toBe("app");
+  });
+
+  it("without a fallback, reports fallbackRendered false and renders nothing", () => {
+    const onError = vi.fn();
+    const { boundary, telemetry } = crash({ onError });
+
+    const [, info] = telemetry.captureRenderError.mock.calls[0];
+    expect(info.fallbackRendered).toBe(false);
+    expect(boundary.render()).toBeNull();
+    expect(onError).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,63 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+import type { TelemetryBase } from "./index.base";
+import { debug } from "./core/debug";
+
+/** What a fallback function receives: the thrown error and a reset that re-renders the children. */
+export interface FallbackProps {
+    error: Error;
+    resetError: () => void;
+}
+
+export type ErrorBoundaryFallback = ReactNode | ((props: FallbackProps) => ReactNode);
+
+export interface TelemetryErrorBoundaryProps {
+    /** The instance from createTelemetry(). */
+    telemetry: Pick<TelemetryBase, "captureRenderError">;
+    /** Rendered in place of the failed subtree; without one it renders nothing. */
+    fallback?: ErrorBoundaryFallback;
+    onError?: (error: Error, componentStack?: string | null) => void;
+    children?: ReactNode;
+}
+
+interface State {
+    error: Error | null;
+}
+
+/**
+ * Reports React render errors — which never reach the global handlers — as `app.crash` with
+ * cause `RenderError`, `crash.component_stack`, `crash.screen` and `crash.fallback_rendered`.
+ * Same component on native and web: it only renders the fallback you pass.
+ *
+ *   <TelemetryErrorBoundary telemetry={telemetry} fallback={<Oops />}>
+ *     <App />
+ *   </TelemetryErrorBoundary>
+ */
+export class TelemetryErrorBoundary extends Component<TelemetryErrorBoundaryProps, State> {
+    state: State = { error: null };
+
+    static getDerivedStateFromError(error: Error): State {
+        return { error };
+    }
+
+    componentDidCatch(error: Error, info: ErrorInfo): void {
+        const fallbackRendered = this.props.fallback !== undefined;
+        void this.props.telemetry
+            .captureRenderError(error, { componentStack: info.componentStack, fallbackRendered })
+            .catch((err) => debug.warn("TelemetryErrorBoundary: report failed", err));
+        this.props.onError?.(error, info.componentStack);
+    }
+
+    resetError = (): void => {
+        this.setState({ error: null });
+    };
+
+    render(): ReactNode {
+        const { error } = this.state;
+        if (!error) return this.props.children;
+
+        // re-throwing here would skip our own componentDidCatch, so no fallback means render nothing
+        const { fallback } = this.props;
+        if (fallback === undefined) return null;
+        return typeof fallback === "function" ? fallback({ error, resetError: this.resetError }) : fallback;
+    }
+}
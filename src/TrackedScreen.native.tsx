@@ -0,0 +1,52 @@
+import { useCallback, useEffect, type ReactNode } from "react";
+import { View } from "react-native";
+import type { TelemetryNative } from "./index.native";
+import type { ScreenDisplayKind } from "./adapters/screenTiming";
+import { debug } from "./core/debug";
+
+type DisplayReporter = Pick<TelemetryNative, "markScreenDisplayed">;
+
+export interface ScreenReadyOptions {
+    /** Route name as React Navigation reports it (what attachNavigation() sees). */
+    screen: string;
+    /** Flip to true once the screen's real content is on screen; omit to report TTID only. */
+    ready?: boolean;
+}
+
+export interface TrackedScreenProps extends ScreenReadyOptions {
+    /** The instance from createTelemetry(). */
+    telemetry: DisplayReporter;
+    children?: ReactNode;
+}
+
+function report(telemetry: DisplayReporter, screen: string, kind: ScreenDisplayKind) {
+    telemetry.markScreenDisplayed(screen, kind)
+        .catch((err) => debug.warn("useScreenReady: report failed", err));
+}
+
+/**
+ * Per-screen render timing from the route change attachNavigation() saw: `TTID` on the first
+ * layout of the view you spread `onLayout` on, `TTFD` when `ready` becomes true. Each is
+ * reported once per visit; marks for a screen that isn't the current route are ignored.
+ *
+ *   const { onLayout } = useScreenReady(telemetry, { screen: "Cart", ready: !loading });
+ *   return <View style={{ flex: 1 }} onLayout={onLayout}>…</View>;
+ */
+export function useScreenReady(telemetry: DisplayReporter, { screen, ready }: ScreenReadyOptions) {
+    useEffect(() => {
+        if (ready) report(telemetry, screen, "full");
+    }, [telemetry, screen, ready]);
+
+    const onLayout = useCallback(() => report(telemetry, screen, "initial"), [telemetry, screen]);
+    return { onLayout };
+}
+
+/**
+ * useScreenReady() as a wrapper: a flex-1 <View> around the screen's content.
+ *
+ *   <TrackedScreen telemetry={telemetry} screen="Cart" ready={!loading}>…</TrackedScreen>
+ */
+export function TrackedScreen({ telemetry, screen, ready, children }: TrackedScreenProps) {
+    const { onLayout } = useScreenReady(telemetry, { screen, ready });
+    return <View style={{ flex: 1 }} onLayout={onLayout}>{children}</View>;
+}
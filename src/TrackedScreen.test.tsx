@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// No renderer in this suite: run effects inline and keep callbacks as-is, so a component call
+// behaves like one commit.
+const effects: Array<() => void> = [];
+vi.mock("react", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("react")>()),
+  useEffect: (effect: () => void) => { effects.push(effect); },
+  useCallback: (fn: unknown) => fn,
+}));
+vi.mock("react-native", () => ({ View: "View" }));
+
+const { useScreenReady, TrackedScreen } = await import("./TrackedScreen.native");
+
+function reporter() {
+  return { markScreenDisplayed: vi.fn(async () => undefined) };
+}
+const commit = () => effects.splice(0).forEach((e) => e());
+
+describe("useScreenReady / TrackedScreen", () => {
+  beforeEach(() => { effects.length = 0; });
+
+  it("reports TTID on layout and TTFD once ready", () => {
+    const telemetry = reporter();
+    const { onLayout } = useScreenReady(telemetry, { screen: "Cart", ready: false });
+    commit();
+    expect(telemetry.markScreenDisplayed).not.toHaveBeenCalled();
+
+    onLayout();
+    useScreenReady(telemetry, { screen: "Cart", ready: true });
+    commit();
+
+    expect(telemetry.markScreenDisplayed.mock.calls).toEqual([["Cart", "initial"], ["Cart", "full"]]);
+  });
+
+  it("without `ready`, only TTID is reported", () => {
+    const telemetry = reporter();
+    useScreenReady(telemetry, { screen: "Home" }).onLayout();
+    commit();
+    expect(telemetry.markScreenDisplayed.mock.calls).toEqual([["Home", "initial"]]);
+  });
+
+  it("TrackedScreen wraps its children in a View wired to onLayout", () => {
+    const telemetry = reporter();
+    const element = TrackedScreen({ telemetry, screen: "Cart", ready: true, children: "content" }) as any;
+    commit();
+
+    expect(element.type).toBe("View");
+    expect(element.props.children).toBe("content");
+    element.props.onLayout();
+    expect(telemetry.markScreenDisplayed.mock.calls).toEqual([["Cart", "full"], ["Cart", "initial"]]);
+  });
+});
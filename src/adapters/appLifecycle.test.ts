@@ -32,4 +32,17 @@ describe("AppLifecycleEmitter (v3 app_lifecycle)", () => {
 
     expect(calls).toHaveLength(0);
   });
+
+  it("tags foreground transitions with app.open_source when one is known", () => {
+    const { telemetry, calls } = fakeTelemetry();
+    telemetry.openSource = "deep_link";
+    const emitter = new AppLifecycleEmitter(telemetry);
+
+    emitter.onState(true);
+    emitter.onState(false);
+    emitter.onState(true);
+
+    expect(calls[0].data).toEqual({ "app_lifecycle.state": "background" });
+    expect(calls[1].data).toEqual({ "app_lifecycle.state": "foreground", "app.open_source": "deep_link" });
+  });
 });
@@ -7,6 +7,7 @@ import { Telemetry } from "../core/telemetry";
  *
  * Feed it the current active state via `onState(isActive)`. It emits `app_lifecycle` only
  * on a transition, carrying the direction as `app_lifecycle.state` (foreground|background).
+ * Foreground transitions also carry `app.open_source` when a deep-link adapter knows it.
  */
 export class AppLifecycleEmitter {
   private active?: boolean;
@@ -15,9 +16,10 @@ export class AppLifecycleEmitter {
 
   onState(isActive: boolean): void {
     if (this.active !== undefined && this.active !== isActive) {
-      this.telemetry.log("app_lifecycle", {
-        "app_lifecycle.state": isActive ? "foreground" : "background",
-      });
+      const attrs: Record<string, any> = { "app_lifecycle.state": isActive ? "foreground" : "background" };
+      const source = isActive ? this.telemetry.openSource : undefined;
+      if (source) attrs["app.open_source"] = source;
+      this.telemetry.log("app_lifecycle", attrs);
     }
     this.active = isActive;
   }
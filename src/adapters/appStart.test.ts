@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import { AppStartTracker, readStartupTiming } from "./appStart";
+
+function fakeTelemetry() {
+  const metrics: Array<[string, number, Record<string, any>]> = [];
+  const telemetry: any = {
+    logMetric: vi.fn(async (name: string, value: number, attrs: any) => { metrics.push([name, value, attrs]); }),
+  };
+  return { telemetry, metrics };
+}
+
+describe("readStartupTiming", () => {
+  it("converts RN startup markers from the performance clock to epoch ms", () => {
+    const perf = { now: () => 5000, rnStartupTiming: { startTime: 100, initializeRuntimeStart: 900 } };
+    expect(readStartupTiming(perf, 1_000_000)).toEqual({ processStart: 995_100, jsStart: 995_900 });
+  });
+
+  it("is empty without the markers (old architecture, web)", () => {
+    expect(readStartupTiming({ now: () => 1 })).toEqual({});
+    expect(readStartupTiming(undefined)).toEqual({});
+    const partial = readStartupTiming({ now: () => 10, rnStartupTiming: { startTime: null, initializeRuntimeStart: 4 } }, 100);
+    expect(partial).toEqual({ processStart: undefined, jsStart: 94 });
+  });
+});
+
+describe("AppStartTracker", () => {
+  it("cold: process start → first render, once the session has started too", () => {
+    const { telemetry, metrics } = fakeTelemetry();
+    const tracker = new AppStartTracker(telemetry, { processStart: 1000, jsStart: 1400 }, 1600);
+
+    tracker.sessionReady(1900);
+    expect(metrics).toEqual([]);
+    tracker.rendered(2500);
+    tracker.rendered(3000);   // later renders don't count
+
+    expect(metrics).toEqual([["app_start", 1500, {
+      "app_start.type": "cold",
+      "app_start.origin": "process_start",
+      "app_start.session_started_ms": 900,
+      "metric.unit": "ms",
+    }]]);
+  });
+
+  it("warm: a runtime started long after its process is a JS reload, timed from the runtime start", () => {
+    const { telemetry, metrics } = fakeTelemetry();
+    const tracker = new AppStartTracker(telemetry, { processStart: 1000, jsStart: 600_000 }, 600_200);
+
+    tracker.rendered(600_700);
+    tracker.sessionReady(600_800);
+
+    expect(metrics[0][1]).toBe(700);
+    expect(metrics[0][2]).toMatchObject({ "app_start.type": "warm", "app_start.origin": "js_start", "app_start.session_started_ms": 800 });
+  });
+
+  it("without startup markers, a cold start is timed from the SDK's start", () => {
+    const { telemetry, metrics } = fakeTelemetry();
+    const tracker = new AppStartTracker(telemetry, {}, 5000);
+
+    tracker.sessionReady(5100);
+    tracker.rendered(5600);
+
+    expect(metrics[0][1]).toBe(600);
+    expect(metrics[0][2]).toMatchObject({ "app_start.type": "cold", "app_start.origin": "js_start" });
+  });
+
+  it("hot: foreground → next render; a launch that never rendered is dropped", () => {
+    const { telemetry, metrics } = fakeTelemetry();
+    const tracker = new AppStartTracker(telemetry, { processStart: 1000, jsStart: 1200 }, 1300);
+    tracker.sessionReady(1500);   // cold launch still waiting for a render
+
+    tracker.foreground(90_000);
+    tracker.rendered(89_990);     // a render from before the foreground doesn't end it
+    tracker.sessionReady(90_040);
+    expect(metrics).toEqual([]);
+    tracker.rendered(90_120);
+
+    expect(metrics).toEqual([["app_start", 120, {
+      "app_start.type": "hot",
+      "app_start.origin": "foreground",
+      "app_start.session_started_ms": 40,
+      "metric.unit": "ms",
+    }]]);
+  });
+});
@@ -0,0 +1,103 @@
+import { Telemetry } from "../core/telemetry";
+
+export type AppStartType = "cold" | "warm" | "hot";
+// where the measurement starts: the native app start, the JS runtime (re)start, or the
+// AppState transition back to active
+export type AppStartOrigin = "process_start" | "js_start" | "foreground";
+
+export interface StartupTiming {
+    processStart?: number;   // epoch ms
+    jsStart?: number;        // epoch ms
+}
+
+// A fresh process boots the JS runtime within seconds of starting; a runtime started much later
+// than its process is a JS reload (dev reload, OTA update restart) in a live process.
+const WARM_GAP_MS = 10_000;
+
+/**
+ * Epoch timestamps from `performance.rnStartupTiming` (RN's startup markers, new architecture):
+ * the native app start (when the host sets it) and the runtime init. Both undefined on older
+ * RN or the web build — callers fall back to the SDK's own start time.
+ */
+export function readStartupTiming(perf: any = (globalThis as any).performance, now = Date.now()): StartupTiming {
+    let timing: any;
+    try {
+        timing = perf?.rnStartupTiming;
+    } catch {
+        return {};
+    }
+    if (!timing || typeof perf.now !== "function") return {};
+    // rnStartupTiming is on the performance.now() clock
+    const toEpoch = (t: unknown) => (typeof t === "number" && t > 0 ? Math.round(now - perf.now() + t) : undefined);
+    return {
+        processStart: toEpoch(timing.startTime),
+        jsStart: toEpoch(timing.initializeRuntimeStart),
+    };
+}
+
+/**
+ * `app_start` metric, native only, sent once both the first render (`rendered()`) and the
+ * session (`sessionReady()`) are in; the value is start → first render in ms. Cold and warm starts
+ * run from the earliest start timestamp to the first layout of the app root, a tracked screen or
+ * the navigation container's first route; a hot start runs from the AppState change back to
+ * active (`foreground()`) to the next frame.
+ *
+ * Cold vs warm: a JS runtime that started long after its process is a reload in a live
+ * process (warm), measured from the runtime start; otherwise cold, from the process start.
+ */
+export class AppStartTracker {
+    private pending?: {
+        type: AppStartType;
+        origin: AppStartOrigin;
+        start: number;
+        rendered?: number;
+        session?: number;
+    };
+
+    constructor(private telemetry: Telemetry, timing: StartupTiming, sdkStart: number) {
+        const jsStart = timing.jsStart ?? sdkStart;
+        const { processStart } = timing;
+        if (processStart !== undefined && processStart <= jsStart) {
+            const warm = jsStart - processStart > WARM_GAP_MS;
+            this.pending = warm
+                ? { type: "warm", origin: "js_start", start: jsStart }
+                : { type: "cold", origin: "process_start", start: processStart };
+        } else {
+            this.pending = { type: "cold", origin: "js_start", start: Math.min(jsStart, sdkStart) };
+        }
+    }
+
+    /** First render since the launch / foreground; later ones are ignored. */
+    rendered(at = Date.now()): void {
+        const pending = this.pending;
+        if (!pending || pending.rendered !== undefined || at < pending.start) return;
+        pending.rendered = at;
+        this.emitIfComplete();
+    }
+
+    /** The session started (or resumed) for this launch / foreground. */
+    sessionReady(at = Date.now()): void {
+        const pending = this.pending;
+        if (!pending || pending.session !== undefined) return;
+        pending.session = at;
+        this.emitIfComplete();
+    }
+
+    /** Back from the background: a hot start. Replaces a launch that never rendered. */
+    foreground(at = Date.now()): void {
+        this.pending = { type: "hot", origin: "foreground", start: at };
+    }
+
+    private emitIfComplete(): void {
+        const pending = this.pending;
+        if (!pending || pending.session === undefined || pending.rendered === undefined) return;
+        this.pending = undefined;
+
+        void this.telemetry.logMetric("app_start", Math.max(0, pending.rendered - pending.start), {
+            "app_start.type": pending.type,
+            "app_start.origin": pending.origin,
+            "app_start.session_started_ms": Math.max(0, pending.session - pending.start),
+            "metric.unit": "ms",
+        }).catch(() => { });
+    }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { fiberRootOf, watchCommits } from "./commitWatch";
+
+// A tapped host fiber under a HostRoot whose FiberRoot swaps `current` when React commits.
+function tree() {
+  const root: any = { current: { tag: 3 } };
+  root.current.stateNode = root;
+  const view = { type: "RCTView", return: { type: function Card() { }, return: root.current } };
+  return { root, event: { _targetInst: view }, commit: () => { root.current = { tag: 3, stateNode: root }; } };
+}
+
+describe("fiberRootOf", () => {
+  it("walks from the event's target fiber to its FiberRoot", () => {
+    const { root, event } = tree();
+    expect(fiberRootOf(event)).toBe(root);
+  });
+
+  it("is undefined without a target fiber or a root", () => {
+    expect(fiberRootOf(undefined)).toBeUndefined();
+    expect(fiberRootOf({ _targetInst: { type: "RCTView", return: null } })).toBeUndefined();
+  });
+});
+
+describe("watchCommits", () => {
+  let frames: Array<() => void>;
+  const nextFrame = () => frames.splice(0).forEach((fn) => fn());
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    frames = [];
+    vi.stubGlobal("requestAnimationFrame", (fn: () => void) => { frames.push(fn); });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("reports one commit inside the window", () => {
+    const { event, commit } = tree();
+    const onCommit = vi.fn();
+    watchCommits(event, 1000, onCommit);
+
+    nextFrame();
+    vi.advanceTimersByTime(300);
+    commit();
+    nextFrame();
+    commit();
+    nextFrame();
+
+    expect(onCommit).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops watching once the window is over", () => {
+    const { event, commit } = tree();
+    const onCommit = vi.fn();
+    watchCommits(event, 1000, onCommit);
+
+    nextFrame();
+    vi.advanceTimersByTime(1000);
+    nextFrame();   // last check: nothing committed
+    commit();
+    nextFrame();
+
+    expect(onCommit).not.toHaveBeenCalled();
+    expect(frames).toHaveLength(0);
+  });
+});
@@ -0,0 +1,31 @@
+// Native's "did the UI change" signal for dead-tap detection (#33). There is no DOM to observe,
+// so we watch React commits instead: the tapped host fiber leads (via `.return`) to the
+// HostRoot, whose FiberRoot swaps `current` on every commit. Same fiber internals as
+// interactionTarget.ts; no public API exposes commits in production builds.
+
+const MAX_DEPTH = 500;
+
+/** The FiberRoot of the tree a responder event's target belongs to, if reachable. */
+export function fiberRootOf(event: any): any {
+    let fiber = event?._targetInst;
+    for (let depth = 0; fiber?.return && depth < MAX_DEPTH; depth++) fiber = fiber.return;
+    const root = fiber?.stateNode;
+    return root && typeof root === "object" && "current" in root ? root : undefined;
+}
+
+/**
+ * Call `onCommit` once if React commits the tapped tree within `windowMs`, checked once a frame.
+ * Any commit counts — including the pressed-state re-render of a `Pressable` itself — so this
+ * can miss a dead tap but never invents one.
+ */
+export function watchCommits(event: any, windowMs: number, onCommit: () => void, now: () => number = Date.now): void {
+    const root = fiberRootOf(event);
+    if (!root || typeof requestAnimationFrame !== "function") return;
+    const before = root.current;
+    const until = now() + windowMs;
+    const check = () => {
+        if (root.current !== before) onCommit();
+        else if (now() < until) requestAnimationFrame(check);
+    };
+    requestAnimationFrame(check);
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { buildCrashAttributes, captureConsole } from "./crashCapture";
+import { buildCrashAttributes, buildRenderErrorAttributes, captureConsole } from "./crashCapture";
 
 function fakeTelemetry() {
   const calls: Array<{ name: string; data: any }> = [];
@@ -19,6 +19,29 @@ describe("buildCrashAttributes — cause discriminator", () => {
   });
 });
 
+describe("buildRenderErrorAttributes — <TelemetryErrorBoundary>", () => {
+  it("builds a non-fatal RenderError with the component stack, screen and fallback flag", () => {
+    const error = new Error("boom");
+    const a = buildRenderErrorAttributes(error, { componentStack: "\n    in Cart\n    in App", fallbackRendered: true }, "Checkout");
+    expect(a).toMatchObject({
+      "crash.cause": "RenderError",
+      "crash.message": "boom",
+      "crash.fatal": false,
+      "crash.component_stack": "in Cart\n    in App",
+      "crash.screen": "Checkout",
+      "crash.fallback_rendered": true,
+    });
+    expect(a["crash.stacktrace"]).toBe(error.stack);
+  });
+
+  it("tolerates thrown non-Errors and a missing component stack or screen", () => {
+    const a = buildRenderErrorAttributes("nope", { componentStack: null, fallbackRendered: false });
+    expect(a["crash.message"]).toBe("nope");
+    expect(a).not.toHaveProperty("crash.component_stack");
+    expect(a).not.toHaveProperty("crash.screen");
+  });
+});
+
 describe("captureConsole — funnel console.error/warn into app.crash (opt-out)", () => {
   it("emits app.crash with ConsoleError / ConsoleWarn and still calls through", () => {
     const { telemetry, calls } = fakeTelemetry();
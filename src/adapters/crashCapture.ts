@@ -1,8 +1,26 @@
 import { Telemetry } from "../core/telemetry";
+import { parseStack } from "./stackParser";
 
 // One `app.crash` stream, segmented by cause (lifts the iOS ADR-010 model). #28
-export type CrashCause = "Error" | "UnhandledRejection" | "ConsoleError" | "ConsoleWarn";
+export type CrashCause =
+  | "Error" | "UnhandledRejection" | "ConsoleError" | "ConsoleWarn"
+  | "Hang" | "ANR"                 // JS-thread stalls (StallWatchdog)
+  | "NativeCrash" | "OOMKill"      // unclean exit, reported on the next launch (run marker)
+  | "RenderError"                  // caught by <TelemetryErrorBoundary>
+  | "Handled";                     // reported by the app: captureException / captureMessage
 
+// `crash.severity` of a handled report
+export type CrashSeverity = "fatal" | "error" | "warning" | "info" | "debug";
+
+export interface CaptureContext {
+  level?: CrashSeverity;              // default "error"
+  attributes?: Record<string, any>;   // extra attributes; crash.* keys are dropped
+}
+
+// React component stacks grow with tree depth; the head names the failing component
+const MAX_COMPONENT_STACK = 4000;
+
+// `crash.frames` (JSON StackFrame[]) rides next to the raw `crash.stacktrace` when it parses.
 export function buildCrashAttributes(
   cause: CrashCause,
   fields: { message?: unknown; stacktrace?: unknown; fatal?: boolean } = {},
@@ -12,10 +30,59 @@ export function buildCrashAttributes(
     "crash.message": fields.message ?? null,
     "crash.stacktrace": fields.stacktrace ?? null,
   };
+  const frames = parseStack(fields.stacktrace);
+  if (frames.length) attrs["crash.frames"] = JSON.stringify(frames);
   if (fields.fatal !== undefined) attrs["crash.fatal"] = fields.fatal;
   return attrs;
 }
 
+/**
+ * `app.crash` for a render error caught by <TelemetryErrorBoundary>: cause RenderError,
+ * never fatal (a boundary caught it), plus React's `componentStack`, the screen and whether
+ * the boundary rendered a fallback (false → the failed subtree now renders nothing).
+ */
+export function buildRenderErrorAttributes(
+  error: unknown,
+  info: { componentStack?: string | null; fallbackRendered: boolean },
+  screen?: string,
+): Record<string, any> {
+  const err = error as { message?: unknown; stack?: unknown } | undefined;
+  const attrs: Record<string, any> = {
+    ...buildCrashAttributes("RenderError", {
+      message: err?.message ?? String(error),
+      stacktrace: err?.stack,
+      fatal: false,
+    }),
+    "crash.fallback_rendered": info.fallbackRendered,
+  };
+  const componentStack = info.componentStack?.trim();
+  if (componentStack) attrs["crash.component_stack"] = componentStack.slice(0, MAX_COMPONENT_STACK);
+  if (screen) attrs["crash.screen"] = screen;
+  return attrs;
+}
+
+/**
+ * `app.crash` for an error or message the app handled and reports itself: cause Handled, never
+ * fatal (level "fatal" lives in `crash.severity` only, so fatal-crash rates stay real crashes).
+ * Goes through log() like every crash, so it gets the breadcrumb trail and fingerprint; the
+ * app's own `crash.*` keys are dropped so they can't pose as SDK-set ones.
+ */
+export function buildHandledAttributes(
+  fields: { message: unknown; stacktrace?: unknown },
+  level: CrashSeverity,
+  attributes?: Record<string, any>,
+  screen?: string,
+): Record<string, any> {
+  const own = Object.entries(attributes ?? {}).filter(([key]) => !key.startsWith("crash."));
+  const attrs: Record<string, any> = {
+    ...Object.fromEntries(own),
+    ...buildCrashAttributes("Handled", { ...fields, fatal: false }),
+    "crash.severity": level,
+  };
+  if (screen) attrs["crash.screen"] = screen;
+  return attrs;
+}
+
 /**
  * Patch console.error/warn to funnel into `app.crash` (cause ConsoleError/ConsoleWarn).
  * Opt-out: callers only invoke this when console capture is enabled. Returns a restore fn.
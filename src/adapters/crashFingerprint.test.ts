@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { crashFingerprint, normalizeCrashMessage } from "./crashFingerprint";
+import { buildCrashAttributes } from "./crashCapture";
+
+describe("normalizeCrashMessage", () => {
+  it("strips numbers, ids, hex addresses and quoted values", () => {
+    expect(normalizeCrashMessage("Order 4411 not found")).toBe("Order <n> not found");
+    expect(normalizeCrashMessage("User 3f2a1c9e-0b1d-4c2e-9a7f-1234567890ab missing")).toBe("User <id> missing");
+    expect(normalizeCrashMessage("bad pointer 0x7ffe12ab")).toBe("bad pointer <hex>");
+    expect(normalizeCrashMessage("token deadbeef42 expired")).toBe("token <id> expired");
+    expect(normalizeCrashMessage(`Cannot read property 'total' of undefined`)).toBe("Cannot read property '…' of undefined");
+    expect(normalizeCrashMessage(null)).toBe("");
+  });
+
+  it("keeps ordinary words that happen to be hex-like", () => {
+    expect(normalizeCrashMessage("decade facade")).toBe("decade facade");
+  });
+});
+
+describe("crashFingerprint", () => {
+  const stack = (line: number) => [
+    "TypeError: x",
+    `    at loadOrder (https://shop.example.com/static/js/main.3f2a1c.js:2:${line})`,
+    "    at apply (native)",
+    `    at OrderScreen (https://shop.example.com/static/js/main.3f2a1c.js:2:${line + 900})`,
+    "    at commitRoot (https://shop.example.com/node_modules/react-dom/index.js:1:1)",
+  ].join("\n");
+  const fp = (cause: any, message: string, stacktrace?: string) =>
+    crashFingerprint(buildCrashAttributes(cause, { message, stacktrace }));
+
+  it("is 16 hex chars and stable for the same crash site", () => {
+    const a = fp("Error", "Order 4411 not found", stack(100));
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+    expect(fp("Error", "Order 9 not found", stack(100))).toBe(a);
+  });
+
+  it("ignores line/column drift but not the cause, message shape or in-app call path", () => {
+    const a = fp("Error", "boom", stack(100));
+    expect(fp("Error", "boom", stack(250))).toBe(a);
+    expect(fp("UnhandledRejection", "boom", stack(100))).not.toBe(a);
+    expect(fp("Error", "bang", stack(100))).not.toBe(a);
+    expect(fp("Error", "boom", stack(100).replace("loadOrder", "saveOrder"))).not.toBe(a);
+  });
+
+  it("groups by cause + message alone when there are no frames", () => {
+    expect(fp("Hang", "JS thread stalled for 2300 ms")).toBe(fp("Hang", "JS thread stalled for 4100 ms"));
+  });
+});
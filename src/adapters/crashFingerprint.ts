@@ -0,0 +1,64 @@
+import type { StackFrame } from "./stackParser";
+
+// How many in-app frames identify a crash site: enough to tell two call paths into the same
+// helper apart, few enough that an unrelated caller further down doesn't split the group.
+const TOP_FRAMES = 3;
+const MAX_MESSAGE = 200;
+
+/**
+ * Strip the per-occurrence parts of a crash message — ids, hex addresses, numbers, quoted
+ * values — so "Order 4411 not found" and "Order 4412 not found" group together.
+ */
+export function normalizeCrashMessage(message: unknown): string {
+    if (message === null || message === undefined) return "";
+    return String(message)
+        .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>")
+        .replace(/\b0x[0-9a-f]+\b/gi, "<hex>")
+        .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, "<id>")
+        .replace(/(["'`]).*?\1/g, "$1…$1")
+        .replace(/\d+/g, "<n>")
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, MAX_MESSAGE);
+}
+
+/**
+ * `crash.fingerprint` (#28): 16 hex chars over the cause, the normalized message and the top
+ * in-app frames (function + file, no line/column, so a rebuild doesn't regroup). Reads the
+ * `crash.*` attributes buildCrashAttributes produces.
+ */
+export function crashFingerprint(attrs: Record<string, any>): string {
+    const parts = [String(attrs["crash.cause"] ?? ""), normalizeCrashMessage(attrs["crash.message"])];
+    for (const frame of topInAppFrames(attrs["crash.frames"])) {
+        parts.push(`${frame.function ?? "?"}@${baseName(frame.file)}`);
+    }
+    const input = parts.join("\n");
+    return fnv1a(input, 0x811c9dc5) + fnv1a(input, 0x01000193);
+}
+
+function topInAppFrames(json: unknown): StackFrame[] {
+    if (typeof json !== "string") return [];
+    try {
+        const frames = JSON.parse(json);
+        return Array.isArray(frames) ? frames.filter((f) => f?.in_app).slice(0, TOP_FRAMES) : [];
+    } catch {
+        return [];
+    }
+}
+
+// "https://host/static/js/main.3f2a1c.js?v=2" → "main.3f2a1c.js"
+function baseName(file: string | undefined): string {
+    if (!file) return "";
+    const path = file.split(/[?#]/)[0];
+    return path.slice(path.lastIndexOf("/") + 1);
+}
+
+// 32-bit FNV-1a as 8 hex chars; two seeds give a 64-bit fingerprint without crypto (RN has none)
+function fnv1a(input: string, seed: number): string {
+    let hash = seed >>> 0;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, "0");
+}
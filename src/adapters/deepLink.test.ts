@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DeepLinkTracker, redactDeepLink } from "./deepLink";
+import { NavigationTracker } from "./navigationTracker";
+
+function fakeTelemetry(currentScreen?: string) {
+  const telemetry: any = { currentScreen, log: vi.fn(async () => undefined), settleOpenSource: vi.fn() };
+  return telemetry;
+}
+
+describe("redactDeepLink", () => {
+  it("keeps scheme, host and path; drops query, fragment and userinfo", () => {
+    expect(redactDeepLink("myapp://Orders/track?token=abc123&utm_source=mail#top")).toBe("myapp://orders/track");
+    expect(redactDeepLink("https://user:pw@shop.example.com/promo/summer")).toBe("https://shop.example.com/promo/summer");
+    expect(redactDeepLink("mailto:someone")).toBe("mailto:someone");
+  });
+
+  it("replaces id-like path segments with <id>", () => {
+    expect(redactDeepLink("myapp://orders/8812/items/3f2504e0-4f89-11d3-9a0c-0305e82c3301"))
+      .toBe("myapp://orders/<id>/items/<id>");
+    expect(redactDeepLink("https://example.com/reset/Zk3q9LmP0aX7bW2r")).toBe("https://example.com/reset/<id>");
+    expect(redactDeepLink("https://example.com/invite/ada%40example.com/accept")).toBe("https://example.com/invite/<id>/accept");
+    expect(redactDeepLink("https://example.com/products/running-shoes")).toBe("https://example.com/products/running-shoes");
+  });
+
+  it("rejects non-URLs", () => {
+    expect(redactDeepLink("not a url")).toBeUndefined();
+    expect(redactDeepLink(null)).toBeUndefined();
+  });
+});
+
+describe("DeepLinkTracker", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it("hands the link to the route change it causes: navigation.method deep_link", () => {
+    const telemetry = fakeTelemetry("Home");
+    const tracker = new DeepLinkTracker(telemetry);
+    telemetry.takeDeepLink = () => tracker.takePending();
+    const navigation = new NavigationTracker(telemetry);
+
+    tracker.onLink("myapp://orders/8812?ref=push");
+    navigation.recordRouteChange("Home", "Order");
+    navigation.recordRouteChange("Order", "Home");
+    vi.advanceTimersByTime(5000);
+
+    expect(telemetry.log.mock.calls).toEqual([
+      ["navigation", {
+        "navigation.from_screen": "Home",
+        "navigation.to_screen": "Order",
+        "navigation.method": "deep_link",
+        "navigation.route_type": "screen",
+        "navigation.deep_link_url": "myapp://orders/<id>",
+      }],
+      ["navigation", {
+        "navigation.from_screen": "Order",
+        "navigation.to_screen": "Home",
+        "navigation.method": "push",
+        "navigation.route_type": "screen",
+      }],
+    ]);
+  });
+
+  it("reports a link that causes no route change on the current screen after 2 s", () => {
+    const telemetry = fakeTelemetry("Cart");
+    const tracker = new DeepLinkTracker(telemetry);
+
+    tracker.onLink("myapp://cart");
+    vi.advanceTimersByTime(1999);
+    expect(telemetry.log).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+
+    expect(telemetry.log).toHaveBeenCalledWith("navigation", expect.objectContaining({
+      "navigation.from_screen": "Cart",
+      "navigation.to_screen": "Cart",
+      "navigation.method": "deep_link",
+      "navigation.deep_link_url": "myapp://cart",
+    }));
+  });
+
+  it("openSource: launcher, then resume, deep_link when a link arrived since the last background", () => {
+    const telemetry = fakeTelemetry();
+    const tracker = new DeepLinkTracker(telemetry);
+    expect(tracker.openSource).toBeUndefined();   // initial URL not settled yet
+    tracker.launchResolved();
+    expect(tracker.openSource).toBe("launcher");
+    expect(telemetry.settleOpenSource).toHaveBeenCalledOnce();
+
+    tracker.onState(false);
+    tracker.onState(true);
+    expect(tracker.openSource).toBe("resume");
+
+    tracker.onState(false);
+    tracker.onLink("https://shop.example.com/promo/summer");   // delivered before the app is active
+    tracker.onState(true);
+    expect(tracker.openSource).toBe("deep_link");
+
+    tracker.onState(false);
+    tracker.onState(true);
+    expect(tracker.openSource).toBe("resume");
+  });
+
+  it("a launch URL makes the launch a deep_link open", () => {
+    const tracker = new DeepLinkTracker(fakeTelemetry());
+    tracker.onLink("myapp://welcome");
+    expect(tracker.openSource).toBe("deep_link");
+  });
+});
@@ -0,0 +1,113 @@
+import { Telemetry, type DeepLinkHandler, type OpenSource } from "../core/telemetry";
+
+const MAX_URL = 200;
+// how long a link waits for the route change it causes before it is reported on its own
+const PENDING_MS = 2000;
+
+/**
+ * Scheme, host and path of a deep link with the per-user parts removed: query, fragment and
+ * userinfo are dropped and id-like path segments (numbers, uuids, long tokens, emails) become
+ * `<id>`. "myapp://orders/8812/track?token=abc" → "myapp://orders/<id>/track".
+ * Regex rather than URL: RN's URL polyfill doesn't parse paths.
+ */
+export function redactDeepLink(url: unknown): string | undefined {
+    if (typeof url !== "string") return undefined;
+    const match = /^([a-z][a-z0-9+.-]*):(\/\/)?([^?#]*)/i.exec(url.trim());
+    if (!match) return undefined;
+    const [, scheme, slashes = "", rest] = match;
+    const segments = (slashes ? rest.replace(/^[^/@]*@/, "") : rest).split("/");
+    const path = segments.map((segment, i) => (i === 0 && slashes ? segment.toLowerCase() : redactSegment(segment)));
+    return `${scheme.toLowerCase()}:${slashes}${path.join("/")}`.slice(0, MAX_URL);
+}
+
+function redactSegment(segment: string): string {
+    let value = segment;
+    try {
+        value = decodeURIComponent(segment);
+    } catch { /* malformed escape — judge it as-is */ }
+    if (/^\d+$/.test(value)
+        || /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)
+        || /@/.test(value)
+        || (value.length >= 16 && /\d/.test(value) && /^[\w-]+$/.test(value))) {
+        return "<id>";
+    }
+    return segment;
+}
+
+/**
+ * Deep links from RN `Linking` (initial URL + runtime `url` events), shared logic with no RN
+ * import. A link is held until the route change it causes — that `navigation` then carries
+ * `navigation.method: "deep_link"` and `navigation.deep_link_url` — or, if none follows within
+ * 2 s (already on the target screen, handled outside React Navigation), reported as its own
+ * `navigation` on the current screen.
+ *
+ * `openSource` answers how the app came forward: `deep_link` if a link arrived since the last
+ * background, else `launcher` on first launch and `resume` after it. Feed it `onState(isActive)`.
+ * The launch answer is unknown until `launchResolved()` (Linking's initial URL has settled).
+ */
+export class DeepLinkTracker implements DeepLinkHandler {
+    private pending?: { url: string; timer: ReturnType<typeof setTimeout> };
+    private active = true;
+    private resumed = false;   // came back from the background at least once
+    private linked = false;    // a link arrived since the last background
+    private launchKnown = false;   // the initial URL has settled
+
+    constructor(private telemetry: Telemetry) { }
+
+    start(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    get openSource(): OpenSource | undefined {
+        if (this.linked) return "deep_link";
+        if (this.resumed) return "resume";
+        return this.launchKnown ? "launcher" : undefined;
+    }
+
+    /** Linking's initial URL settled (and was fed to onLink if there was one). */
+    launchResolved(): void {
+        this.launchKnown = true;
+        this.telemetry.settleOpenSource();
+    }
+
+    // links are delivered before the app turns active, so only leaving the foreground resets
+    onState(isActive: boolean): void {
+        if (isActive === this.active) return;
+        this.active = isActive;
+        if (!isActive) {
+            this.resumed = true;
+            this.linked = false;
+        }
+    }
+
+    onLink(url: unknown): void {
+        const redacted = redactDeepLink(url);
+        if (!redacted) return;
+        this.linked = true;
+        this.telemetry.settleOpenSource();
+        this.report();   // an earlier link that never caused a route change
+        this.pending = { url: redacted, timer: setTimeout(() => this.report(), PENDING_MS) };
+    }
+
+    /** The held link for the route change being recorded, if any. */
+    takePending(): string | undefined {
+        const pending = this.pending;
+        if (!pending) return undefined;
+        clearTimeout(pending.timer);
+        this.pending = undefined;
+        return pending.url;
+    }
+
+    private report(): void {
+        const url = this.takePending();
+        if (!url) return;
+        const screen = this.telemetry.currentScreen ?? null;
+        void this.telemetry.log("navigation", {
+            "navigation.from_screen": screen,
+            "navigation.to_screen": screen,
+            "navigation.method": "deep_link",
+            "navigation.route_type": "screen",
+            "navigation.deep_link_url": url,
+        }).catch(() => { });
+    }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
 import { InteractionEmitter } from "./interaction";
+import { TapAnalyzer } from "./tapAnalyzer";
 import { Telemetry } from "../core/telemetry";
 
 // Fake telemetry mirrors the AppLifecycleEmitter test seam: capture what the emitter
@@ -51,6 +52,59 @@ describe("InteractionEmitter (v3 user.interaction)", () => {
     expect(calls[0].name).toBe("user.interaction");
     expect(calls[0].data["interaction.screen"]).toBe("Home");
   });
+
+  it("responderProps() tags the tap with the component resolved from the event target", () => {
+    const { telemetry, calls } = fakeTelemetry("Cart");
+    const props = new InteractionEmitter(telemetry, { allow: ["testID"] }).responderProps();
+    const event = {
+      _targetInst: {
+        type: "RCTView",
+        memoizedProps: { testID: "cart-checkout", accessibilityLabel: "Checkout" },
+        return: undefined,
+      },
+    };
+
+    expect(props.onStartShouldSetResponderCapture(event)).toBe(false);
+    expect(calls[0].data).toEqual({
+      "interaction.type": "tap",
+      "interaction.screen": "Cart",
+      "interaction.target_id": "cart-checkout",   // label not in the allowlist
+    });
+  });
+});
+
+describe("native dead taps", () => {
+  it("a React commit of the tapped tree answers the tap; without one it is dead", () => {
+    vi.useFakeTimers();
+    const frames: Array<() => void> = [];
+    vi.stubGlobal("requestAnimationFrame", (fn: () => void) => { frames.push(fn); });
+    try {
+      const { telemetry, calls } = fakeTelemetry("Cart");
+      telemetry.onEvent = () => () => { };
+      telemetry.log = vi.fn(async (name: string, data?: any) => { calls.push({ name, data }); });
+      const props = new InteractionEmitter(telemetry, {}, new TapAnalyzer(telemetry)).responderProps();
+      const root: any = { current: {} };
+      const event = { _targetInst: { type: "RCTView", memoizedProps: { testID: "buy" }, return: { stateNode: root } } };
+      const deadTaps = () => calls.filter((c) => c.data["interaction.type"] === "dead_tap");
+
+      props.onStartShouldSetResponderCapture(event);
+      vi.advanceTimersByTime(16);
+      root.current = {};   // the cart badge re-rendered
+      frames.splice(0).forEach((fn) => fn());
+      vi.advanceTimersByTime(1000);
+      expect(deadTaps()).toHaveLength(0);
+
+      props.onStartShouldSetResponderCapture(event);
+      for (let t = 0; t < 1000; t += 16) {
+        vi.advanceTimersByTime(16);
+        frames.splice(0).forEach((fn) => fn());
+      }
+      expect(deadTaps()).toHaveLength(1);
+    } finally {
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    }
+  });
 });
 
 describe("current screen wiring (real Telemetry core)", () => {
@@ -1,4 +1,7 @@
 import { Telemetry } from "../core/telemetry";
+import { resolveInteractionTarget, type InteractionOptions } from "./interactionTarget";
+import type { TapAnalyzer } from "./tapAnalyzer";
+import { watchCommits } from "./commitWatch";
 
 /**
  * Best-effort native tap capture → v3 `user.interaction` (#33). No DOM `target_tag`/
@@ -6,10 +9,18 @@ import { Telemetry } from "../core/telemetry";
  *
  * RN has no global tap stream, so `responderProps()` returns a top-level responder-capture
  * handler the consumer spreads onto their app root <View>. It records the tap and returns
- * false, so it observes the gesture without ever claiming it.
+ * false, so it observes the gesture without ever claiming it. The tapped component is
+ * resolved from the event's target fiber into `interaction.target_id` / `target_label`,
+ * filtered through the host's allowlist and redaction (see interactionTarget.ts). With an
+ * analyzer attached, each tap also feeds rage/dead-tap detection, and a React commit of the
+ * tapped tree within the dead-tap window counts as the app responding.
  */
 export class InteractionEmitter {
-  constructor(private telemetry: Telemetry) {}
+  constructor(
+    private telemetry: Telemetry,
+    private options: InteractionOptions = {},
+    private analyzer?: TapAnalyzer,
+  ) {}
 
   record(type: string = "tap", extra?: Record<string, any>): Promise<void> {
     const screen = (this.telemetry as any).currentScreen;
@@ -23,8 +34,14 @@ export class InteractionEmitter {
   // Spread onto the app root <View>: each tap → user.interaction, gesture never stolen.
   responderProps() {
     return {
-      onStartShouldSetResponderCapture: () => {
-        this.record("tap");
+      onStartShouldSetResponderCapture: (event?: any) => {
+        const target = resolveInteractionTarget(event, this.options);
+        this.record("tap", target);
+        const analyzer = this.analyzer;
+        if (analyzer) {
+          analyzer.onTap(target);
+          watchCommits(event, analyzer.deadWindowMs, () => analyzer.activity());
+        }
         return false;
       },
     };
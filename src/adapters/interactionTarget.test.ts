@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { resolveInteractionTarget } from "./interactionTarget";
+
+// Fiber chain builder: host fibers have a string type, composites a function/object type.
+function chain(...nodes: Array<{ type: any; props?: any }>): any {
+  let parent: any = undefined;
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    parent = { type: nodes[i].type, memoizedProps: nodes[i].props ?? {}, return: parent };
+  }
+  return { _targetInst: parent };
+}
+
+function CheckoutButton() {}
+const View = { displayName: "View", render: () => null };
+const Pressable = Object.assign(() => null, { displayName: "Pressable" });
+
+describe("resolveInteractionTarget", () => {
+  it("takes the nearest testID and accessibilityLabel up the fiber chain", () => {
+    const event = chain(
+      { type: "RCTText", props: { children: "Pay £120" } },
+      { type: "RCTView", props: { accessibilityLabel: "Pay now" } },
+      { type: View },
+      { type: Pressable, props: { testID: "checkout-pay" } },
+      { type: CheckoutButton },
+    );
+
+    expect(resolveInteractionTarget(event)).toEqual({
+      "interaction.target_id": "checkout-pay",
+      "interaction.target_label": "Pay now",
+    });
+  });
+
+  it("falls back to nativeID and the nearest app component name, skipping RN primitives", () => {
+    const event = chain(
+      { type: "RCTView", props: { nativeID: "row-7" } },
+      { type: View },
+      { type: { type: CheckoutButton } },   // memo(CheckoutButton)
+    );
+
+    expect(resolveInteractionTarget(event)).toEqual({
+      "interaction.target_id": "row-7",
+      "interaction.target_label": "CheckoutButton",
+    });
+  });
+
+  it("honours the allowlist and redaction", () => {
+    const event = chain(
+      { type: "RCTView", props: { testID: "msg-42", accessibilityLabel: "Message from Jane Doe" } },
+      { type: CheckoutButton },
+    );
+
+    expect(resolveInteractionTarget(event, { allow: ["testID", "displayName"] })).toEqual({
+      "interaction.target_id": "msg-42",
+      "interaction.target_label": "CheckoutButton",
+    });
+    expect(resolveInteractionTarget(event, {
+      redact: (value, source) => (source === "accessibilityLabel" ? undefined : value.replace(/\d+/g, "#")),
+    })).toEqual({
+      "interaction.target_id": "msg-#",
+      "interaction.target_label": "CheckoutButton",
+    });
+  });
+
+  it("never reads rendered text and copes with a missing target", () => {
+    const event = chain({ type: "RCTText", props: { children: "4111 1111 1111 1111" } });
+    expect(resolveInteractionTarget(event)).toEqual({});
+    expect(resolveInteractionTarget(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,78 @@
+// Resolve which component a native tap landed on, from the responder event's target fiber.
+// RN exposes no public API for this: the event's `_targetInst` is the host fiber that was
+// touched, so we walk `.return` towards the root and take the first stable identifier. Only
+// developer-authored props and component names are read — never children, so rendered
+// text can't leak. Used by InteractionEmitter (#33).
+
+export type TargetSource = "testID" | "nativeID" | "accessibilityLabel" | "displayName";
+
+export interface InteractionOptions {
+    /** Which identifier sources may be emitted. Default: all four. */
+    allow?: TargetSource[];
+    /** Rewrite or drop (return undefined) a value before it is emitted. */
+    redact?: (value: string, source: TargetSource) => string | undefined;
+}
+
+export interface InteractionTarget {
+    "interaction.target_id"?: string;      // testID, else nativeID
+    "interaction.target_label"?: string;   // accessibilityLabel, else nearest app component name
+}
+
+const MAX_DEPTH = 40;
+const MAX_LENGTH = 64;
+const ALL_SOURCES: TargetSource[] = ["testID", "nativeID", "accessibilityLabel", "displayName"];
+
+// RN building blocks say nothing about *which* control was tapped — keep walking past them
+const PRIMITIVES = new Set([
+    "View", "Text", "Image", "ImageBackground", "ScrollView", "FlatList", "SectionList",
+    "VirtualizedList", "Pressable", "TouchableOpacity", "TouchableHighlight",
+    "TouchableWithoutFeedback", "TouchableNativeFeedback", "Button", "TextInput", "SafeAreaView",
+    "KeyboardAvoidingView", "Modal", "Switch", "AnimatedComponent", "CellRenderer",
+]);
+
+export function resolveInteractionTarget(event: any, options: InteractionOptions = {}): InteractionTarget {
+    const allow = new Set(options.allow ?? ALL_SOURCES);
+    const found: Partial<Record<TargetSource, string>> = {};
+
+    let fiber = event?._targetInst;
+    for (let depth = 0; fiber && depth < MAX_DEPTH; depth++, fiber = fiber.return) {
+        const props = fiber.memoizedProps;
+        if (props && typeof props === "object") {
+            pick(found, "testID", props.testID);
+            pick(found, "nativeID", props.nativeID);
+            pick(found, "accessibilityLabel", props.accessibilityLabel ?? props["aria-label"]);
+        }
+        if (!found.displayName) {
+            const name = componentName(fiber.type);
+            if (name && !PRIMITIVES.has(name) && !name.startsWith("Animated(")) found.displayName = name;
+        }
+        if (found.testID && found.accessibilityLabel && found.displayName) break;
+    }
+
+    const emit = (source: TargetSource): string | undefined => {
+        const value = found[source];
+        if (value === undefined || !allow.has(source)) return undefined;
+        const out = options.redact ? options.redact(value, source) : value;
+        return out ? out.slice(0, MAX_LENGTH) : undefined;
+    };
+
+    const target: InteractionTarget = {};
+    const id = emit("testID") ?? emit("nativeID");
+    const label = emit("accessibilityLabel") ?? emit("displayName");
+    if (id) target["interaction.target_id"] = id;
+    if (label) target["interaction.target_label"] = label;
+    return target;
+}
+
+function pick(found: Partial<Record<TargetSource, string>>, source: TargetSource, value: unknown): void {
+    if (found[source] === undefined && typeof value === "string" && value.trim()) found[source] = value.trim();
+}
+
+// composite components only: host fibers have a string type ("RCTView")
+function componentName(type: any): string | undefined {
+    if (!type || typeof type === "string") return undefined;
+    return type.displayName || type.name
+        || type.render?.displayName || type.render?.name       // forwardRef
+        || type.type?.displayName || type.type?.name           // memo
+        || undefined;
+}
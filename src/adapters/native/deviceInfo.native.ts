@@ -1,9 +1,10 @@
 // adapters/native/deviceInfoNative.native.ts
 import { Platform } from "react-native";
 import DeviceInfoLib from "react-native-device-info";
-import { v4 as uuidv4 } from "uuid";
 import { Telemetry } from "../../core/telemetry";
 import { DeviceInfo } from "../../core/telemetry";
+import { IdentityStore } from "../../core/identity";
+import { MemoryStore } from "../../core/storage";
 
 export class DeviceInfoTrackerNative {
     // private telemetry: Telemetry;
@@ -12,17 +13,14 @@ export class DeviceInfoTrackerNative {
     //     this.telemetry = telemetry || new Telemetry();
     // }
 
-    constructor() {
+    // Pass the core's store so device.id is the same persisted value the Context block uses.
+    constructor(private identity: IdentityStore = new IdentityStore(new MemoryStore())) {
     }
 
     async collect(): Promise<DeviceInfo> {
-        // 🔹 Device ID
-        let uniqueId = "";
-        try {
-            uniqueId = await DeviceInfoLib.getUniqueId();
-        } catch {
-            uniqueId = `device_${Date.now()}_${uuidv4()}_${Platform.OS}`;
-        }
+        // 🔹 Device ID — one SDK-minted device_{ms}_{16hex}_{os} per install (not getUniqueId(),
+        // which isn't contract-format and differs per vendor/reinstall policy)
+        const deviceId = await this.identity.loadDeviceId(Platform.OS);
 
         // 🔹 App metadata
         const appName = (await DeviceInfoLib.getApplicationName()) || "UnknownApp";
@@ -56,7 +54,7 @@ export class DeviceInfoTrackerNative {
                 packageName,
             },
             device: {
-                id: uniqueId,
+                id: deviceId,
                 platform: Platform.OS,
                 platformVersion: systemVersion,
                 model,
@@ -27,9 +27,14 @@ export class NetworkTrackerNative {
                 init?: RequestInit
             ): Promise<Response> => {
                 const start = Date.now();
+                const url = typeof input === "string" ? input : input.toString();
+                // Never self-capture the SDK's own collector POST
+                const endpoint = this.telemetry.getEndpoint?.();
+                const own = !!endpoint && url.startsWith(endpoint);
                 let response: Response | null = null;
                 let error: unknown = null;
 
+                if (!own) this.telemetry.requestStarted();
                 try {
                     response = await this.originalFetch(input, init);
                     return response;
@@ -40,11 +45,7 @@ export class NetworkTrackerNative {
                     const end = Date.now();
                     const durationMs = end - start;
 
-                    const url = typeof input === "string" ? input : input.toString();
-
-                    // Never self-capture the SDK's own collector POST
-                    const endpoint = this.telemetry.getEndpoint?.();
-                    if (!(endpoint && url.startsWith(endpoint))) {
+                    if (!own) {
                         const responseSize = response
                             ? Number(response.headers.get("content-length") ?? 0)
                             : 0;
@@ -9,6 +9,7 @@ function fakeTelemetry(endpoint?: string) {
     telemetry: {
       log: vi.fn((name: string, data?: any) => { calls.push({ name, data }); }),
       getEndpoint: () => endpoint,
+      requestStarted: vi.fn(),
     } as any,
     calls,
   };
@@ -5,12 +5,16 @@ import { NavigationTracker } from "../navigationTracker";
 /**
  * Hook into React Navigation events
  * Usage: pass your navigationContainerRef
+ *
+ * Each route change emits `navigation` and drives `telemetry.screens`, so every screen gets a
+ * `screen.duration` without host screenStart/screenEnd calls. Background and session end are
+ * handled by the screens tracker's suspend/resume (wired to AppState in TelemetryNative).
  */
 export class NavigationTrackerNative {
     private tracker: NavigationTracker;
     private currentRoute?: string;
 
-    constructor(telemetry: Telemetry) {
+    constructor(private telemetry: Telemetry) {
         this.tracker = new NavigationTracker(telemetry);
     }
 
@@ -18,15 +22,20 @@ export class NavigationTrackerNative {
         if (!navigationRef) return;
 
         debug.log("NavigationTrackerNative: attaching to navigationRef");
-        navigationRef.addListener("state", () => {
-            const route = this.getActiveRouteName(navigationRef.getCurrentRoute());
-            if (route && route !== this.currentRoute) {
+        navigationRef.addListener("state", () => this.onState(navigationRef));
+        // the container may already be showing its first screen — "state" only fires on change
+        if (navigationRef.isReady?.()) this.onState(navigationRef);
+    }
+
+    private onState(navigationRef: any) {
+        const route = this.getActiveRouteName(navigationRef.getCurrentRoute());
+        if (route && route !== this.currentRoute) {
 
-                debug.log(`NavigationTrackerNative: route changed to ${route}`);
-                this.tracker.recordRouteChange(this.currentRoute ?? "init", route);
-                this.currentRoute = route;
-            }
-        });
+            debug.log(`NavigationTrackerNative: route changed to ${route}`);
+            this.telemetry.screens.enterScreen(route);   // ends the previous screen's dwell
+            this.tracker.recordRouteChange(this.currentRoute ?? "init", route);
+            this.currentRoute = route;
+        }
     }
 
     private getActiveRouteName(route: any): string {
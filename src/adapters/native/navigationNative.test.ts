@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { NavigationTrackerNative } from "./navigationNative.native";
+import { ScreenTimingTracker } from "../screenTiming";
+
+// React Navigation container ref: "state" listener + getCurrentRoute(), possibly nested
+function fakeNavigationRef(initial?: string) {
+  let listener: () => void = () => {};
+  let route: any = initial ? { name: initial } : undefined;
+  return {
+    ref: {
+      isReady: () => route !== undefined,
+      getCurrentRoute: () => route,
+      addListener: (_event: string, fn: () => void) => { listener = fn; },
+    },
+    navigate: (next: any) => { route = next; listener(); },
+  };
+}
+
+function fakeTelemetry() {
+  const telemetry: any = { log: vi.fn(async () => undefined), takeDeepLink: () => undefined };
+  telemetry.screens = new ScreenTimingTracker(telemetry);
+  return telemetry;
+}
+
+describe("NavigationTrackerNative", () => {
+  it("times the screen already showing at attach and every screen after it", () => {
+    vi.useFakeTimers();
+    try {
+      const telemetry = fakeTelemetry();
+      const nav = fakeNavigationRef("Home");
+      new NavigationTrackerNative(telemetry).attach(nav.ref);
+
+      vi.advanceTimersByTime(1500);
+      nav.navigate({ name: "Tabs", state: { index: 1, routes: [{ name: "Feed" }, { name: "Cart" }] } });
+
+      const calls = telemetry.log.mock.calls.map((c: any[]) => [c[0], c[1]]);
+      expect(calls).toEqual([
+        ["navigation", expect.objectContaining({ "navigation.from_screen": "init", "navigation.to_screen": "Home" })],
+        ["screen.duration", { "screen.name": "Home", "screen.duration_ms": 1500, "screen.exit_method": "navigation" }],
+        ["navigation", expect.objectContaining({ "navigation.from_screen": "Home", "navigation.to_screen": "Cart" })],
+      ]);
+      expect(telemetry.currentScreen).toBe("Cart");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("ignores state events that don't change the focused route", () => {
+    const telemetry = fakeTelemetry();
+    const nav = fakeNavigationRef();
+    new NavigationTrackerNative(telemetry).attach(nav.ref);
+
+    nav.navigate({ name: "Home" });
+    nav.navigate({ name: "Home", params: { tab: 2 } });
+
+    expect(telemetry.log.mock.calls.map((c: any[]) => c[0])).toEqual(["navigation"]);
+  });
+});
@@ -0,0 +1,17 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { KeyValueStore } from "../../core/storage";
+
+/** AsyncStorage-backed store for persisted SDK state (identity, session). */
+export class StorageNative implements KeyValueStore {
+    getItem(key: string): Promise<string | null> {
+        return AsyncStorage.getItem(key);
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+        return AsyncStorage.setItem(key, value);
+    }
+
+    removeItem(key: string): Promise<void> {
+        return AsyncStorage.removeItem(key);
+    }
+}
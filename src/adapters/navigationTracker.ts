@@ -9,12 +9,15 @@ export class NavigationTracker {
 
     // Route change → v3 `navigation`. Baseline keys follow the reference/Angular shape;
     // iOS (screen/previous_screen/type/kind) reconciliation is OPEN (see additions ledger).
+    // A route change caused by a deep link is method `deep_link` with the redacted URL.
     recordRouteChange(from: string, to: string) {
+        const deepLink = this.telemetry.takeDeepLink();
         this.telemetry.log("navigation", {
             "navigation.from_screen": from,
             "navigation.to_screen": to,
-            "navigation.method": "push",
+            "navigation.method": deepLink ? "deep_link" : "push",
             "navigation.route_type": "screen",
+            ...(deepLink ? { "navigation.deep_link_url": deepLink } : {}),
         });
     }
 }
@@ -4,7 +4,10 @@ import { NetworkChangeEmitter } from "./networkChange";
 function fakeTelemetry() {
   const calls: Array<{ name: string; data: any }> = [];
   return {
-    telemetry: { log: vi.fn((name: string, data?: any) => { calls.push({ name, data }); }) } as any,
+    telemetry: {
+      log: vi.fn((name: string, data?: any) => { calls.push({ name, data }); }),
+      refreshNetworkContext: vi.fn(() => { calls.push({ name: "<refresh>", data: undefined }); }),
+    } as any,
     calls,
   };
 }
@@ -17,10 +20,11 @@ describe("NetworkChangeEmitter (v3 network_change)", () => {
     emitter.onSample("wifi");      // baseline — no transition yet
     emitter.onSample("cellular");  // wifi → cellular
 
-    expect(calls).toHaveLength(1);
-    expect(calls[0].name).toBe("network_change");
-    expect(calls[0].data["network.previous_type"]).toBe("wifi");
-    expect(calls[0].data["network.type"]).toBe("cellular");
+    const events = calls.filter((c) => c.name !== "<refresh>");
+    expect(events).toHaveLength(1);
+    expect(events[0].name).toBe("network_change");
+    expect(events[0].data["network.previous_type"]).toBe("wifi");
+    expect(events[0].data["network.type"]).toBe("cellular");
     // legacy v2 name never fires
     expect(calls.some((c) => c.name === "network_info_change")).toBe(false);
   });
@@ -30,8 +34,19 @@ describe("NetworkChangeEmitter (v3 network_change)", () => {
     const emitter = new NetworkChangeEmitter(telemetry);
 
     emitter.onSample("wifi");  // first sample: establishes baseline only
-    emitter.onSample("wifi");  // no change
+    expect(calls).toHaveLength(0);   // no event and no context refresh
 
-    expect(calls).toHaveLength(0);
+    emitter.onSample("wifi");  // no type change: no event, but the snapshot may be stale
+    expect(calls.map((c) => c.name)).toEqual(["<refresh>"]);
+  });
+
+  it("invalidates the cached network context before emitting, so the event carries the new type", () => {
+    const { telemetry, calls } = fakeTelemetry();
+    const emitter = new NetworkChangeEmitter(telemetry);
+
+    emitter.onSample("wifi");
+    emitter.onSample("none");
+
+    expect(calls.map((c) => c.name)).toEqual(["<refresh>", "network_change"]);
   });
 });
@@ -7,6 +7,8 @@ import { Telemetry } from "../core/telemetry";
  * Feed it every connectivity sample via `onSample`. It emits `network_change` only on an
  * actual type transition, carrying `network.previous_type`; the current `network.*` context
  * rides on the event via the Context block (and is echoed here for an explicit at-emit value).
+ * Every sample after the baseline also invalidates the core's cached network snapshot: a
+ * listener firing means connectivity changed, even when the type didn't (online/offline).
  */
 export class NetworkChangeEmitter {
   private previousType?: string;
@@ -15,6 +17,7 @@ export class NetworkChangeEmitter {
 
   onSample(currentType: string | undefined): void {
     const prev = this.previousType;
+    if (prev !== undefined) this.telemetry.refreshNetworkContext();   // cached network.* is stale from here on
     if (prev !== undefined && prev !== currentType) {
       this.telemetry.log("network_change", {
         "network.previous_type": prev,
@@ -1,9 +1,34 @@
 import { Telemetry } from "../core/telemetry";
 
+// how a screen's dwell ended: the user moved on, the app left the foreground, or the session ended
+export type ScreenExitMethod = "navigation" | "background" | "session_end";
+
+// TTID: route change → first layout. TTFD: route change → the app says its content is loaded.
+export type ScreenDisplayKind = "initial" | "full";
+
+/**
+ * `screen.duration` dwell timing. Two drivers:
+ *
+ * - manual `startScreen` / `endScreen` (host-called; startScreen also emits `navigation`), and
+ * - automatic `enterScreen` from a navigation adapter, which ends the previous screen on every
+ *   route change. `suspend()` ends the active screen on background / session end and
+ *   `resume()` restarts its clock on return, so time away never counts.
+ *
+ * Use one or the other for a given app, not both.
+ *
+ * The automatic driver also times rendering: `markDisplayed()` (from useScreenReady /
+ * <TrackedScreen>) emits the `ttid` / `ttfd` metrics with `screen.name`, measured from the route
+ * change, once per visit. Each goes out as soon as its mark lands, so a screen that never
+ * finishes (the app is killed or crashes on it) still reports what was measured.
+ */
 export class ScreenTimingTracker {
     private telemetry: Telemetry;
     private startTimes: Map<string, number> = new Map();
     private lastScreen?: string;
+    private active?: { screen: string; start: number };   // automatic driver
+    private suspended?: string;
+    // render timing of the current visit; undefined once the visit ended or was interrupted
+    private display?: { screen: string; start: number; initial?: boolean; full?: boolean };
 
     constructor(telemetry: Telemetry) {
         this.telemetry = telemetry;
@@ -28,13 +53,71 @@ export class ScreenTimingTracker {
         const start = this.startTimes.get(screen);
         if (!start) return;
 
-        const duration = Date.now() - start;
         this.startTimes.delete(screen);
+        void this.emitDuration(screen, start, "navigation");
+    }
+
+    /** Route change from a navigation adapter: end the previous screen, time the new one. */
+    enterScreen(screen: string) {
+        if (this.active?.screen === screen) return;
+        if (this.active) void this.emitDuration(this.active.screen, this.active.start, "navigation");
+        this.active = { screen, start: Date.now() };
+        this.display = { screen, start: this.active.start };
+        this.suspended = undefined;
+        this.telemetry.currentScreen = screen;
+    }
+
+    /**
+     * The screen reached its first layout (`initial`) or declared its content loaded (`full`).
+     * Ignored unless `screen` is the one the last route change entered; a `full` mark before
+     * any `initial` one records TTID at the same time, so TTID ≤ TTFD always holds.
+     */
+    markDisplayed(screen: string, kind: ScreenDisplayKind, at = Date.now()) {
+        const display = this.display;
+        if (!display || display.screen !== screen) return;
+        const ms = at - display.start;
+        if (!display.initial) {
+            display.initial = true;
+            this.emitDisplay("ttid", screen, ms);
+        }
+        if (kind === "full" && !display.full) {
+            display.full = true;
+            this.emitDisplay("ttfd", screen, ms);
+        }
+    }
 
-        this.telemetry.log("screen.duration", {
+    /**
+     * App backgrounded or session ending: close the active screen's dwell. Display marks still
+     * pending are dropped — time away would otherwise count as render time.
+     */
+    suspend(exitMethod: Exclude<ScreenExitMethod, "navigation">): Promise<void> {
+        this.display = undefined;
+        const active = this.active;
+        if (!active) return Promise.resolve();
+        this.active = undefined;
+        this.suspended = active.screen;
+        return this.emitDuration(active.screen, active.start, exitMethod);
+    }
+
+    /** Back in the foreground / new session: the same screen starts a fresh dwell. */
+    resume() {
+        if (!this.suspended || this.active) return;
+        this.active = { screen: this.suspended, start: Date.now() };
+        this.suspended = undefined;
+    }
+
+    private emitDisplay(metric: "ttid" | "ttfd", screen: string, ms: number) {
+        void this.telemetry.logMetric(metric, Math.max(0, ms), {
             "screen.name": screen,
-            "screen.duration_ms": duration,
-            "screen.exit_method": "navigation",
-        });
+            "metric.unit": "ms",
+        }).catch(() => { });
+    }
+
+    private emitDuration(screen: string, start: number, exitMethod: ScreenExitMethod): Promise<void> {
+        return this.telemetry.log("screen.duration", {
+            "screen.name": screen,
+            "screen.duration_ms": Date.now() - start,
+            "screen.exit_method": exitMethod,
+        }).catch(() => { });
     }
 }
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { parseStack } from "./stackParser";
+import { buildCrashAttributes } from "./crashCapture";
+
+// Real traces, one per engine (paths shortened). Each engine's quirks are in here on purpose.
+const V8_CHROME = `TypeError: Cannot read properties of undefined (reading 'total')
+    at CartSummary (https://shop.example.com/static/js/main.3f2a1c.js:2:41873)
+    at async Promise.all (index 0)
+    at new Promise (<anonymous>)
+    at Object.onClick (https://shop.example.com/static/js/main.3f2a1c.js:2:40211)
+    at https://shop.example.com/static/js/main.3f2a1c.js:2:39001
+    at HTMLUnknownElement.callCallback (https://shop.example.com/node_modules/react-dom/cjs/react-dom.development.js:4164:14)
+    at eval (eval at compile (https://shop.example.com/static/js/vendor.js:10:200), <anonymous>:1:5)`;
+
+const HERMES_RELEASE = `TypeError: undefined is not an object (evaluating 'e.total')
+    at CartSummary (address at index.android.bundle:1:482911)
+    at anonymous (address at index.android.bundle:1:219843)
+    at apply (native)
+    at callFunction (address at InternalBytecode.js:1:1034)
+    at global (address at index.android.bundle:1:104)`;
+
+const HERMES_DEV = `Error: boom
+    at onPress (http://10.0.2.2:8081/index.bundle?platform=android&dev=true&minify=false:118247:26)
+    at _performTransitionSideEffects (http://10.0.2.2:8081/node_modules/react-native/Libraries/Pressability/Pressability.js:659:22)`;
+
+const JSC_SAFARI = `CartSummary@https://shop.example.com/static/js/main.3f2a1c.js:2:41873
+onClick@https://shop.example.com/static/js/main.3f2a1c.js:2:40211
+forEach@[native code]
+@https://shop.example.com/static/js/main.3f2a1c.js:2:39001
+global code@https://shop.example.com/:12:3`;
+
+const JSC_RN = `value@index.ios.bundle:1:338201
+onPress@index.ios.bundle:1:412088
+[native code]
+touchableHandlePress@index.ios.bundle:1:290114`;
+
+describe("parseStack — V8 (Chrome / Node / RN debug)", () => {
+  it("normalizes named, anonymous, async, constructor and eval frames", () => {
+    expect(parseStack(V8_CHROME)).toEqual([
+      { function: "CartSummary", file: "https://shop.example.com/static/js/main.3f2a1c.js", line: 2, column: 41873, in_app: true },
+      { function: "Promise.all", file: "index 0", in_app: false },
+      { function: "Promise", file: "<anonymous>", in_app: false },
+      { function: "Object.onClick", file: "https://shop.example.com/static/js/main.3f2a1c.js", line: 2, column: 40211, in_app: true },
+      { file: "https://shop.example.com/static/js/main.3f2a1c.js", line: 2, column: 39001, in_app: true },
+      { function: "HTMLUnknownElement.callCallback", file: "https://shop.example.com/node_modules/react-dom/cjs/react-dom.development.js", line: 4164, column: 14, in_app: false },
+      { function: "eval", file: "https://shop.example.com/static/js/vendor.js", line: 10, column: 200, in_app: true },
+    ]);
+  });
+});
+
+describe("parseStack — Hermes", () => {
+  it("strips the bytecode 'address at' prefix and marks builtins out of app", () => {
+    expect(parseStack(HERMES_RELEASE)).toEqual([
+      { function: "CartSummary", file: "index.android.bundle", line: 1, column: 482911, in_app: true },
+      { file: "index.android.bundle", line: 1, column: 219843, in_app: true },
+      { function: "apply", file: "native", in_app: false },
+      { function: "callFunction", file: "InternalBytecode.js", line: 1, column: 1034, in_app: false },
+      { function: "global", file: "index.android.bundle", line: 1, column: 104, in_app: true },
+    ]);
+  });
+
+  it("keeps Metro dev URLs (query string and all) and flags node_modules", () => {
+    const frames = parseStack(HERMES_DEV);
+    expect(frames[0]).toEqual({
+      function: "onPress",
+      file: "http://10.0.2.2:8081/index.bundle?platform=android&dev=true&minify=false",
+      line: 118247, column: 26, in_app: true,
+    });
+    expect(frames[1].in_app).toBe(false);
+  });
+});
+
+describe("parseStack — JSC (Safari / RN JSC)", () => {
+  it("parses fn@file:line:col, anonymous @ frames, global code and [native code]", () => {
+    expect(parseStack(JSC_SAFARI)).toEqual([
+      { function: "CartSummary", file: "https://shop.example.com/static/js/main.3f2a1c.js", line: 2, column: 41873, in_app: true },
+      { function: "onClick", file: "https://shop.example.com/static/js/main.3f2a1c.js", line: 2, column: 40211, in_app: true },
+      { function: "forEach", file: "[native code]", in_app: false },
+      { file: "https://shop.example.com/static/js/main.3f2a1c.js", line: 2, column: 39001, in_app: true },
+      { file: "https://shop.example.com/", line: 12, column: 3, in_app: true },
+    ]);
+  });
+
+  it("skips bare [native code] lines that carry no @", () => {
+    expect(parseStack(JSC_RN).map((f) => f.function)).toEqual(["value", "onPress", "touchableHandlePress"]);
+  });
+});
+
+describe("parseStack — robustness", () => {
+  it("returns no frames for non-strings, empty input and messages that merely contain '@'", () => {
+    expect(parseStack(undefined)).toEqual([]);
+    expect(parseStack("")).toEqual([]);
+    expect(parseStack("Error: invalid address user@example.com")).toEqual([]);
+  });
+
+  it("caps the frame count", () => {
+    const deep = Array.from({ length: 80 }, (_, i) => `    at f${i} (app.js:${i + 1}:1)`).join("\n");
+    expect(parseStack(deep)).toHaveLength(50);
+  });
+});
+
+describe("buildCrashAttributes — crash.frames", () => {
+  it("adds the parsed frames as JSON next to the raw stacktrace", () => {
+    const a = buildCrashAttributes("Error", { message: "boom", stacktrace: HERMES_RELEASE });
+    expect(a["crash.stacktrace"]).toBe(HERMES_RELEASE);
+    expect(JSON.parse(a["crash.frames"])[0]).toMatchObject({ function: "CartSummary", line: 1 });
+  });
+
+  it("omits crash.frames when there is no parseable stack", () => {
+    expect(buildCrashAttributes("Hang", { message: "stalled" })).not.toHaveProperty("crash.frames");
+  });
+});
@@ -0,0 +1,83 @@
+// Normalize JS engine stack traces into frames for `crash.frames` (#28). The raw string still
+// ships as `crash.stacktrace`; frames are what the backend groups and symbolicates on.
+//
+//   V8 (Chrome, Node, RN debug):  "    at fn (file:12:34)"  /  "    at file:12:34"
+//   Hermes:                       "    at fn (address at index.android.bundle:1:2345)"  /  "    at fn (native)"
+//   JSC (Safari, RN JSC), Gecko:  "fn@file:12:34"  /  "@file:12:34"  /  "fn@[native code]"
+//
+// Lines matching none of these (the "Error: message" header, blank lines) are skipped.
+
+export interface StackFrame {
+    function?: string;
+    file?: string;
+    line?: number;
+    column?: number;
+    in_app: boolean;
+}
+
+const MAX_FRAMES = 50;
+
+const V8_HERMES = /^\s*at (?:(.+?) \((.+)\)|(.+))$/;
+const JSC_GECKO = /^\s*(.*?)@(.+)$/;
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/;
+const HERMES_ADDRESS = /^address at /;
+// V8 eval frames nest the real location: "eval at fn (file:1:2), <anonymous>:3:4"
+const V8_EVAL = /^eval at [^(]*\((.+?)\),/;
+
+export function parseStack(stack: unknown): StackFrame[] {
+    if (typeof stack !== "string" || !stack) return [];
+    const frames: StackFrame[] = [];
+    for (const line of stack.split("\n")) {
+        const frame = parseStackLine(line);
+        if (frame) frames.push(frame);
+        if (frames.length >= MAX_FRAMES) break;
+    }
+    return frames;
+}
+
+/** One trace line → frame, or undefined for headers and noise. */
+export function parseStackLine(line: string): StackFrame | undefined {
+    const v8 = V8_HERMES.exec(line);
+    if (v8) {
+        const fn = v8[1]?.replace(/^(?:async|new) /, "");
+        return frame(fn, v8[2] ?? v8[3]);
+    }
+    // a message that happens to contain "@" is not a frame: require a position or [native code]
+    const jsc = JSC_GECKO.exec(line);
+    if (jsc && (LOCATION.test(jsc[2]) || jsc[2] === "[native code]")) return frame(jsc[1], jsc[2]);
+    return undefined;
+}
+
+function frame(fn: string | undefined, location: string): StackFrame {
+    const out: StackFrame = { in_app: false };
+    const name = fn?.trim();
+    if (name && name !== "anonymous" && name !== "<anonymous>" && name !== "global code") out.function = name;
+
+    let loc = location.trim();
+    const evalAt = V8_EVAL.exec(loc);
+    if (evalAt) loc = evalAt[1];
+    loc = loc.replace(HERMES_ADDRESS, "");
+
+    // builtins have no position: "native" (Hermes/V8), "[native code]" (JSC), "index 0" (V8 Promise.all)
+    if (loc === "native" || loc === "[native code]" || loc === "<anonymous>" || /^index \d+$/.test(loc)) {
+        out.file = loc;
+        return out;
+    }
+    const pos = LOCATION.exec(loc);
+    if (pos) {
+        out.file = pos[1];
+        out.line = Number(pos[2]);
+        if (pos[3] !== undefined) out.column = Number(pos[3]);
+    } else {
+        out.file = loc;
+    }
+    out.in_app = isInApp(out.file);
+    return out;
+}
+
+// A release bundle is one file, so everything in it counts as app code; only dependencies
+// (visible in dev/web builds) and engine internals are excluded.
+function isInApp(file: string | undefined): boolean {
+    if (!file) return false;
+    return !/\/node_modules\/|InternalBytecode|^(?:node|internal):|^chrome-extension:|^webpack\/bootstrap/.test(file);
+}
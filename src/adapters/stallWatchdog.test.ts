@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { StallWatchdog } from "./stallWatchdog";
+import { Telemetry } from "../core/telemetry";
+
+// A blocked JS thread is simulated by moving the clock without letting timers fire, then
+// letting the overdue tick run — exactly what the drift check sees after a real stall.
+// stall(ms) makes the next tick fire `ms` late.
+function fakeTelemetry(currentScreen?: string) {
+  const crashes: any[] = [];
+  const telemetry: any = {
+    currentScreen,
+    log: vi.fn(async (name: string, data: any) => { if (name === "app.crash") crashes.push(data); }),
+  };
+  return { telemetry, crashes };
+}
+
+function stall(ms: number) {
+  vi.setSystemTime(Date.now() + ms);
+  vi.advanceTimersToNextTimer();
+}
+
+describe("StallWatchdog", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it("reports a stall past the threshold as app.crash Hang with duration and screen", async () => {
+    const { telemetry, crashes } = fakeTelemetry("Feed");
+    const watchdog = new StallWatchdog(telemetry, { thresholdMs: 1000, intervalMs: 500 });
+    await watchdog.start();
+
+    vi.advanceTimersByTime(2000);   // healthy ticks
+    expect(crashes).toEqual([]);
+
+    stall(2000);
+    expect(crashes).toEqual([{
+      "crash.cause": "Hang",
+      "crash.message": "JS thread stalled for 2000 ms",
+      "crash.stacktrace": null,
+      "crash.fatal": false,
+      "crash.stall_ms": 2000,
+      "crash.screen": "Feed",
+    }]);
+    watchdog.stop();
+  });
+
+  it("escalates to ANR from 5 s and ignores drift under the threshold", async () => {
+    const { telemetry, crashes } = fakeTelemetry();
+    const watchdog = new StallWatchdog(telemetry, { thresholdMs: 1000, intervalMs: 500 });
+    await watchdog.start();
+
+    stall(700);    // under the threshold
+    stall(5500);
+    expect(crashes.map((c) => [c["crash.cause"], c["crash.stall_ms"]])).toEqual([["ANR", 5500]]);
+    expect(crashes[0]).not.toHaveProperty("crash.screen");
+    watchdog.stop();
+  });
+
+  it("pauses in the background so suspended timers aren't reported", async () => {
+    const { telemetry, crashes } = fakeTelemetry();
+    const watchdog = new StallWatchdog(telemetry, { thresholdMs: 1000, intervalMs: 500 });
+    await watchdog.start();
+
+    watchdog.onState(false);
+    vi.setSystemTime(Date.now() + 60_000);   // app suspended for a minute
+    expect(vi.getTimerCount()).toBe(0);
+
+    watchdog.onState(true);                  // re-arms fresh
+    vi.advanceTimersByTime(2000);
+    expect(crashes).toEqual([]);
+    watchdog.stop();
+  });
+
+  it("carries the breadcrumb trail through the real core", async () => {
+    const sent: any[] = [];
+    const t = new Telemetry({ sender: { send: vi.fn(async (e: any[]) => { sent.push(...e); }) }, batchSize: 100, flushIntervalMs: 0 });
+    await t.log("navigation", { "navigation.to_screen": "Feed" });
+    const watchdog = new StallWatchdog(t, { thresholdMs: 1000, intervalMs: 500 });
+    await watchdog.start();
+
+    stall(3000);
+    watchdog.stop();
+    await vi.waitFor(() => expect(t.getQueue().some((e) => e.eventName === "app.crash")).toBe(true));
+
+    const crash = t.getQueue().find((e) => e.eventName === "app.crash")!;
+    expect(crash.attributes!["crash.cause"]).toBe("Hang");
+    expect(JSON.parse(crash.attributes!["crash.breadcrumbs"]).map((b: any) => b.name)).toContain("navigation");
+  });
+});
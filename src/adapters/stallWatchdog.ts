@@ -0,0 +1,81 @@
+import { Telemetry } from "../core/telemetry";
+import { buildCrashAttributes } from "./crashCapture";
+
+export interface StallWatchdogOptions {
+    thresholdMs?: number;   // report stalls at least this long (default 2000)
+    intervalMs?: number;    // tick period (default 500)
+}
+
+// past this the stall is an ANR: Android's input-dispatch timeout, used on every platform
+const ANR_MS = 5000;
+
+/**
+ * JS-thread stall detection by timer drift, shared by native and web (#28). A timer is armed
+ * every `intervalMs`; when it fires late by `thresholdMs` or more, the thread was blocked for
+ * that long and we report `app.crash` with cause `Hang` (`ANR` from 5 s), `crash.fatal=false`,
+ * `crash.stall_ms` and `crash.screen`. Breadcrumbs ride along as on every app.crash.
+ *
+ * Feed it the foreground state via `onState(isActive)`: timers are suspended or throttled in
+ * the background, so the watchdog stops there and re-arms fresh on return.
+ */
+export class StallWatchdog {
+    private thresholdMs: number;
+    private intervalMs: number;
+    private timer?: ReturnType<typeof setTimeout>;
+    private expected = 0;
+    private active = true;
+
+    constructor(private telemetry: Telemetry, options: StallWatchdogOptions = {}, private now: () => number = Date.now) {
+        this.thresholdMs = options.thresholdMs ?? 2000;
+        this.intervalMs = options.intervalMs ?? 500;
+    }
+
+    start(): Promise<void> {
+        return new Promise((resolve) => {
+            if (this.active) this.arm();
+            resolve();
+        });
+    }
+
+    onState(isActive: boolean): void {
+        if (isActive === this.active) return;
+        this.active = isActive;
+        if (isActive) {
+            this.arm();
+        } else {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    stop(): void {
+        this.active = false;
+        clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+
+    private arm(): void {
+        clearTimeout(this.timer);
+        this.expected = this.now() + this.intervalMs;
+        this.timer = setTimeout(() => this.tick(), this.intervalMs);
+    }
+
+    private tick(): void {
+        const stallMs = this.now() - this.expected;
+        if (stallMs >= this.thresholdMs) this.report(stallMs);
+        if (this.active) this.arm();
+    }
+
+    private report(stallMs: number): void {
+        const cause = stallMs >= ANR_MS ? "ANR" : "Hang";
+        const attrs: Record<string, any> = {
+            ...buildCrashAttributes(cause, {
+                message: `JS thread stalled for ${stallMs} ms`,
+                fatal: false,
+            }),
+            "crash.stall_ms": stallMs,
+        };
+        if (this.telemetry.currentScreen) attrs["crash.screen"] = this.telemetry.currentScreen;
+        void this.telemetry.log("app.crash", attrs).catch(() => { });
+    }
+}
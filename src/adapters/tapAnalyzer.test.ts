@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TapAnalyzer } from "./tapAnalyzer";
+import { Telemetry } from "../core/telemetry";
+
+// Fake telemetry with the onEvent seam: emit(name) plays an app event through the listeners.
+function fakeTelemetry(currentScreen?: string) {
+  const listeners: Array<(name: string) => void> = [];
+  const findings: any[] = [];
+  const telemetry: any = {
+    currentScreen,
+    log: vi.fn(async (_name: string, data: any) => { findings.push(data); }),
+    onEvent: (fn: (name: string) => void) => {
+      listeners.push(fn);
+      return () => { listeners.splice(listeners.indexOf(fn), 1); };
+    },
+  };
+  return { telemetry, findings, listeners, emit: (name: string) => listeners.forEach((fn) => fn(name)) };
+}
+
+const BUY = { "interaction.target_id": "buy" };
+const BACK = { "interaction.target_id": "back" };
+
+describe("TapAnalyzer", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it("reports one rage_tap with the count once a burst on one target ends", () => {
+    const { telemetry, findings, emit } = fakeTelemetry("Cart");
+    const analyzer = new TapAnalyzer(telemetry, {}, () => Date.now());
+
+    for (let i = 0; i < 4; i++) {
+      analyzer.onTap(BUY);
+      emit("http.request.start");   // the button works — so no dead tap, just frustration
+      vi.advanceTimersByTime(200);
+    }
+    expect(findings).toEqual([]);
+
+    vi.advanceTimersByTime(1000);
+    expect(findings).toEqual([{
+      "interaction.type": "rage_tap",
+      "interaction.screen": "Cart",
+      "interaction.target_id": "buy",
+      "interaction.tap_count": 4,
+      "interaction.duration_ms": 600,
+    }]);
+  });
+
+  it("needs the same target and short gaps for a rage tap", () => {
+    const { telemetry, findings, emit } = fakeTelemetry();
+    const analyzer = new TapAnalyzer(telemetry, {}, () => Date.now());
+
+    analyzer.onTap(BUY); emit("navigation");
+    analyzer.onTap(BACK); emit("navigation");
+    analyzer.onTap(BUY); emit("navigation");
+    vi.advanceTimersByTime(1500);
+    analyzer.onTap(BUY); emit("navigation");
+    vi.advanceTimersByTime(1500);
+    analyzer.onTap(BUY); emit("navigation");
+    vi.advanceTimersByTime(5000);
+
+    expect(findings).toEqual([]);
+  });
+
+  it("reports a dead_tap when nothing responds within the window", () => {
+    const { telemetry, findings } = fakeTelemetry("Settings");
+    const analyzer = new TapAnalyzer(telemetry, { deadWindowMs: 800 }, () => Date.now());
+
+    analyzer.onTap(BACK);
+    vi.advanceTimersByTime(300);
+    analyzer.onTap(BACK);
+    vi.advanceTimersByTime(800);
+
+    expect(findings).toEqual([{
+      "interaction.type": "dead_tap",
+      "interaction.screen": "Settings",
+      "interaction.target_id": "back",
+      "interaction.tap_count": 2,
+      "interaction.duration_ms": 300,
+    }]);
+  });
+
+  it("a re-render, navigation or request after the tap means it wasn't dead", () => {
+    const { telemetry, findings, emit } = fakeTelemetry();
+    const analyzer = new TapAnalyzer(telemetry, {}, () => Date.now());
+
+    analyzer.onTap(BUY);
+    vi.advanceTimersByTime(400);
+    analyzer.activity();   // e.g. a DOM mutation
+    vi.advanceTimersByTime(2000);
+
+    analyzer.onTap(BACK);
+    emit("user.interaction");   // its own tap event is not a response
+    vi.advanceTimersByTime(100);
+    emit("navigation");
+    vi.advanceTimersByTime(2000);
+
+    expect(findings).toEqual([]);
+  });
+
+  it("a request sent after the tap answers it, however long the response takes", () => {
+    const { telemetry, findings, emit } = fakeTelemetry();
+    const analyzer = new TapAnalyzer(telemetry, {}, () => Date.now());
+
+    emit("http.request.start");   // in flight before the tap — not an answer to it
+    vi.advanceTimersByTime(50);
+    analyzer.onTap(BUY);
+    vi.advanceTimersByTime(100);
+    emit("http.request");         // its completion isn't either
+    vi.advanceTimersByTime(1000);
+    expect(findings.map((f) => f["interaction.type"])).toEqual(["dead_tap"]);
+
+    analyzer.onTap(BACK);
+    vi.advanceTimersByTime(100);
+    emit("http.request.start");   // a slow request: http.request only arrives after 5 s
+    vi.advanceTimersByTime(5000);
+    emit("http.request");
+    expect(findings).toHaveLength(1);
+  });
+
+  it("stop() unsubscribes and drops pending findings", () => {
+    const { telemetry, findings, listeners } = fakeTelemetry();
+    const analyzer = new TapAnalyzer(telemetry, {}, () => Date.now());
+    expect(listeners).toHaveLength(1);
+
+    analyzer.onTap(BUY);
+    analyzer.stop();
+    expect(listeners).toHaveLength(0);
+    vi.advanceTimersByTime(2000);
+    expect(findings).toEqual([]);
+  });
+
+  it("moving on to another target drops the earlier unanswered tap", () => {
+    const { telemetry, findings } = fakeTelemetry();
+    const analyzer = new TapAnalyzer(telemetry, {}, () => Date.now());
+
+    analyzer.onTap(BUY);
+    vi.advanceTimersByTime(300);
+    analyzer.onTap(BACK);
+    vi.advanceTimersByTime(1000);
+
+    expect(findings.map((f) => f["interaction.target_id"])).toEqual(["back"]);
+  });
+
+  it("sees navigation through the real Telemetry core's onEvent", async () => {
+    const sender = { send: vi.fn(async (_e: any[]) => {}) };
+    const t = new Telemetry({ sender, batchSize: 100, flushIntervalMs: 0 });
+    const log = vi.spyOn(t, "log");
+    const analyzer = new TapAnalyzer(t, {}, () => Date.now());
+
+    analyzer.onTap(BUY);
+    void t.log("navigation", { "navigation.to_screen": "Checkout" });
+    vi.advanceTimersByTime(2000);
+    analyzer.onTap(BACK);
+    t.requestStarted();
+    vi.advanceTimersByTime(2000);
+
+    expect(log.mock.calls.some(([, data]) => data?.["interaction.type"] === "dead_tap")).toBe(false);
+  });
+});
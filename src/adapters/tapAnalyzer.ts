@@ -0,0 +1,119 @@
+import { Telemetry } from "../core/telemetry";
+
+export interface TapAnalyzerOptions {
+    rageTapCount?: number;   // taps on one target that make a rage tap (default 3)…
+    rageWindowMs?: number;   // …each within this long of the previous (default 1000)
+    deadWindowMs?: number;   // no response this long after a tap → dead tap (default 1000)
+}
+
+// app responses that prove a tap did something; user.interaction itself never counts. A request
+// counts when it is sent — its http.request only arrives on completion, often past the window.
+const RESPONSE_EVENTS = new Set(["navigation", "http.request.start"]);
+
+interface Streak {
+    key: string;
+    screen?: string;
+    target: Record<string, any>;
+    count: number;
+    first: number;
+    last: number;
+}
+
+/**
+ * Frustration signals on top of raw taps (#33), emitted as `user.interaction` with
+ * `interaction.type` `rage_tap` or `dead_tap`, the target fields, `interaction.tap_count` and
+ * the screen:
+ *
+ * - rage tap: `rageTapCount`+ taps on the same target, each within `rageWindowMs` of the last;
+ *   reported once when the burst ends.
+ * - dead tap: a tap (or a run of taps on one target) followed by no navigation, no request
+ *   sent and no re-render within `deadWindowMs`. Re-renders come from the platform via
+ *   `activity()` — a MutationObserver on web, React commits of the tapped tree on native
+ *   (commitWatch.ts).
+ *
+ * One analyzer per SDK instance: it subscribes to the core's events until `stop()`.
+ */
+export class TapAnalyzer {
+    private rageTapCount: number;
+    private rageWindowMs: number;
+    readonly deadWindowMs: number;
+    private burst?: Streak;
+    private burstTimer?: ReturnType<typeof setTimeout>;
+    private unanswered?: Streak;
+    private deadTimer?: ReturnType<typeof setTimeout>;
+    private lastActivity = -Infinity;
+    private unsubscribe: () => void;
+
+    constructor(private telemetry: Telemetry, options: TapAnalyzerOptions = {}, private now: () => number = Date.now) {
+        this.rageTapCount = options.rageTapCount ?? 3;
+        this.rageWindowMs = options.rageWindowMs ?? 1000;
+        this.deadWindowMs = options.deadWindowMs ?? 1000;
+        this.unsubscribe = telemetry.onEvent((name) => {
+            if (RESPONSE_EVENTS.has(name)) this.activity();
+        });
+    }
+
+    /** Unsubscribe from the core and drop pending bursts / unanswered taps unreported. */
+    stop(): void {
+        this.unsubscribe();
+        clearTimeout(this.burstTimer);
+        clearTimeout(this.deadTimer);
+        this.burst = undefined;
+        this.unanswered = undefined;
+    }
+
+    /** The app visibly responded (re-render, navigation, request). */
+    activity(): void {
+        this.lastActivity = this.now();
+    }
+
+    /** Feed one physical tap/click; `target` is its interaction.target_* attributes. */
+    onTap(target: Record<string, any>): void {
+        const t = this.now();
+        const screen = this.telemetry.currentScreen;
+        const key = JSON.stringify([screen, target]);
+
+        if (this.burst && this.burst.key === key && t - this.burst.last <= this.rageWindowMs) {
+            this.burst.count++;
+            this.burst.last = t;
+        } else {
+            this.endBurst();
+            this.burst = { key, screen, target, count: 1, first: t, last: t };
+        }
+        clearTimeout(this.burstTimer);
+        this.burstTimer = setTimeout(() => this.endBurst(), this.rageWindowMs);
+
+        // a tap on another target moves on before we know — the earlier run is not judged
+        if (this.unanswered?.key === key && this.lastActivity < this.unanswered.first) {
+            this.unanswered.count++;
+            this.unanswered.last = t;
+        } else {
+            this.unanswered = { key, screen, target, count: 1, first: t, last: t };
+        }
+        clearTimeout(this.deadTimer);
+        this.deadTimer = setTimeout(() => this.checkDead(), this.deadWindowMs);
+    }
+
+    private endBurst(): void {
+        clearTimeout(this.burstTimer);
+        const burst = this.burst;
+        this.burst = undefined;
+        if (burst && burst.count >= this.rageTapCount) this.emit("rage_tap", burst);
+    }
+
+    private checkDead(): void {
+        const run = this.unanswered;
+        this.unanswered = undefined;
+        if (run && this.lastActivity < run.first) this.emit("dead_tap", run);
+    }
+
+    private emit(type: string, streak: Streak): void {
+        void this.telemetry.log("user.interaction", {
+            "interaction.type": type,
+            ...(streak.screen ? { "interaction.screen": streak.screen } : {}),
+            ...streak.target,
+            "interaction.tap_count": streak.count,
+            "interaction.duration_ms": streak.last - streak.first,
+        }).catch(() => { });
+    }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ClickCaptureWeb } from "./clickCapture.web";
+import { NavigationTrackerWeb } from "./navigationWeb.web";
+
+// Just enough DOM: elements with tagName/className/attributes and a closest() over the parent chain.
+function el(tagName: string, props: Record<string, any> = {}, parent?: any): any {
+  const attrs: Record<string, string> = props.attrs ?? {};
+  const node: any = {
+    nodeType: 1, tagName, id: "", className: "", textContent: "", parentElement: parent, ...props,
+    getAttribute: (name: string) => attrs[name] ?? null,
+    closest(selector: string) {
+      const tags = selector.split(",");
+      for (let n: any = node; n; n = n.parentElement) {
+        const t = n.tagName.toLowerCase();
+        if (tags.includes(t) || (n.getAttribute("role") && tags.includes(`[role=${n.getAttribute("role")}]`))
+          || (n.getAttribute("data-testid") && tags.includes("[data-testid]"))) return n;
+      }
+      return null;
+    },
+  };
+  return node;
+}
+
+function stubDocument() {
+  let onClick: ((e: any) => void) | undefined;
+  vi.stubGlobal("document", { addEventListener: (_t: string, fn: (e: any) => void) => { onClick = fn; } });
+  return { click: (target: any) => onClick?.({ target }) };
+}
+
+function fakeTelemetry(currentScreen?: string) {
+  return { log: vi.fn(async () => {}), onEvent: () => () => {}, takeDeepLink: () => undefined, currentScreen } as any;
+}
+
+describe("ClickCaptureWeb (web user.interaction)", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("emits user.interaction with the DOM target fields and the current screen", async () => {
+    const doc = stubDocument();
+    const telemetry = fakeTelemetry("/cart");
+    await new ClickCaptureWeb(telemetry).start();
+
+    doc.click(el("BUTTON", { id: "checkout", className: " btn  btn-primary ", textContent: "Pay now" }));
+
+    expect(telemetry.log).toHaveBeenCalledWith("user.interaction", {
+      "interaction.type": "click",
+      "interaction.screen": "/cart",
+      "interaction.target_tag": "button",
+      "interaction.target_class": "btn btn-primary",
+      "interaction.target_id": "checkout",
+    });
+  });
+
+  it("reports the interactive ancestor of an inner node, identified by data-testid then aria-label", async () => {
+    const doc = stubDocument();
+    const telemetry = fakeTelemetry();
+    await new ClickCaptureWeb(telemetry).start();
+
+    const link = el("A", { attrs: { "data-testid": "nav-home", "aria-label": "Home" } });
+    doc.click(el("SPAN", { className: "icon" }, link));
+    const labelled = el("DIV", { attrs: { role: "button", "aria-label": "Close dialog" } });
+    doc.click({ nodeType: 3, parentElement: labelled });   // text-node target
+
+    expect(telemetry.log.mock.calls[0][1]).toMatchObject({ "interaction.target_tag": "a", "interaction.target_id": "nav-home" });
+    expect(telemetry.log.mock.calls[1][1]).toMatchObject({ "interaction.target_tag": "div", "interaction.target_id": "Close dialog" });
+  });
+
+  it("sends text only when opted in, and never for form fields", async () => {
+    const doc = stubDocument();
+    const optedOut = fakeTelemetry();
+    await new ClickCaptureWeb(optedOut).start();
+    doc.click(el("BUTTON", { textContent: "Delete account" }));
+    expect(optedOut.log.mock.calls[0][1]).not.toHaveProperty("interaction.target_text");
+
+    const doc2 = stubDocument();
+    const optedIn = fakeTelemetry();
+    await new ClickCaptureWeb(optedIn, { captureText: true }).start();
+    doc2.click(el("BUTTON", { textContent: "  Add\n  to   cart " }));
+    doc2.click(el("TEXTAREA", { textContent: "secret draft" }));
+
+    expect(optedIn.log.mock.calls[0][1]["interaction.target_text"]).toBe("Add to cart");
+    expect(optedIn.log.mock.calls[1][1]).not.toHaveProperty("interaction.target_text");
+  });
+
+  it("counts attribute changes as a response only inside the clicked control", async () => {
+    vi.useFakeTimers();
+    let onClick: ((e: any) => void) | undefined;
+    let mutate: ((records: any[]) => void) | undefined;
+    vi.stubGlobal("document", { documentElement: {}, addEventListener: (_t: string, fn: any) => { onClick = fn; } });
+    vi.stubGlobal("MutationObserver", class {
+      constructor(fn: (records: any[]) => void) { mutate = fn; }
+      observe() { }
+    });
+    const telemetry = fakeTelemetry();
+    await new ClickCaptureWeb(telemetry).start();
+    const deadClicks = () => telemetry.log.mock.calls.filter((c: any[]) => c[1]["interaction.type"] === "dead_tap");
+
+    const spinner = el("DIV");
+    const save = el("BUTTON", { id: "save", contains: (n: any) => n === save });
+    onClick!({ target: save });
+    mutate!([{ type: "attributes", target: spinner }]);   // an unrelated animation
+    vi.advanceTimersByTime(1000);
+    expect(deadClicks()).toHaveLength(1);
+
+    const toggle = el("BUTTON", { id: "menu", contains: (n: any) => n === toggle });
+    onClick!({ target: toggle });
+    mutate!([{ type: "attributes", target: toggle }]);   // aria-expanded flipped
+    onClick!({ target: save });
+    mutate!([{ type: "childList", target: spinner }]);   // a dialog opened elsewhere
+    vi.advanceTimersByTime(1000);
+    expect(deadClicks()).toHaveLength(1);
+    vi.useRealTimers();
+  });
+});
+
+describe("NavigationTrackerWeb current screen", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("seeds and follows currentScreen so clicks carry the route", async () => {
+    const location = { pathname: "/home", search: "" };
+    const listeners: Record<string, () => void> = {};
+    vi.stubGlobal("window", { location, addEventListener: (t: string, fn: () => void) => { listeners[t] = fn; } });
+    vi.stubGlobal("history", { pushState: () => {}, replaceState: () => {} });
+
+    const telemetry = fakeTelemetry();
+    await new NavigationTrackerWeb(telemetry).start();
+    expect(telemetry.currentScreen).toBe("/home");
+
+    location.pathname = "/orders";
+    (globalThis as any).history.pushState({}, "", "/orders");
+    expect(telemetry.currentScreen).toBe("/orders");
+    expect(telemetry.log).toHaveBeenCalledWith("navigation", expect.objectContaining({
+      "navigation.from_screen": "/home", "navigation.to_screen": "/orders",
+    }));
+
+    location.pathname = "/home";
+    listeners.popstate();
+    expect(telemetry.currentScreen).toBe("/home");
+  });
+});
@@ -0,0 +1,91 @@
+import { Telemetry } from "../../core/telemetry";
+import { InteractionEmitter } from "../interaction";
+import { TapAnalyzer } from "../tapAnalyzer";
+
+export interface ClickCaptureOptions {
+    captureText?: boolean;   // opt-in: send the element's visible text (trimmed, ≤64 chars)
+}
+
+// a click on an inner <span>/<svg> reports the control it belongs to
+const INTERACTIVE = "a,button,input,select,textarea,label,summary,[role=button],[role=link],[role=tab],[role=menuitem],[data-testid]";
+const MAX_TEXT = 64;
+const MAX_CLASS = 100;
+
+/**
+ * Web `user.interaction` capture (#33): one delegated capture-phase click listener on the
+ * document, so every click/tap is seen without touching app handlers. Emits the DOM fields
+ * native can't honestly provide — `interaction.target_tag` / `target_class` — plus a safe
+ * identifier (`id`, `data-testid` or `aria-label`, in that order) and the current screen.
+ * Text content never leaves the page unless `captureText` is on, and never for form fields.
+ * Clicks also feed rage/dead-click detection. Nodes added or removed and text changes count as
+ * the app responding; attribute changes only inside the clicked control, since elsewhere they
+ * are mostly hover styles, animations and timers that would hide every dead click.
+ */
+export class ClickCaptureWeb {
+    private emitter: InteractionEmitter;
+    private analyzer: TapAnalyzer;
+    private clicked?: any;   // the last clicked control
+
+    constructor(telemetry: Telemetry, private options: ClickCaptureOptions = {}) {
+        this.emitter = new InteractionEmitter(telemetry);
+        this.analyzer = new TapAnalyzer(telemetry);
+    }
+
+    start(): Promise<void> {
+        return new Promise((resolve) => {
+            if (typeof document === "undefined") {
+                resolve();
+                return;
+            }
+            document.addEventListener("click", (event) => this.onClick(event), { capture: true, passive: true });
+            if (typeof MutationObserver !== "undefined" && document.documentElement) {
+                new MutationObserver((mutations) => this.onMutations(mutations)).observe(document.documentElement, {
+                    childList: true, subtree: true, attributes: true, characterData: true,
+                });
+            }
+            resolve();
+        });
+    }
+
+    private onClick(event: Event): void {
+        const target = resolveTarget(event.target);
+        if (!target) return;
+        const attrs = this.describe(target);
+        this.clicked = target;
+        void this.emitter.record("click", attrs).catch(() => { });
+        this.analyzer.onTap(attrs);
+    }
+
+    private onMutations(mutations: MutationRecord[]): void {
+        const responded = mutations.some((m) => m.type !== "attributes" || this.clicked?.contains?.(m.target));
+        if (responded) this.analyzer.activity();
+    }
+
+    private describe(el: any): Record<string, any> {
+        const attrs: Record<string, any> = { "interaction.target_tag": el.tagName.toLowerCase() };
+
+        const cls = typeof el.className === "string" ? el.className.trim().replace(/\s+/g, " ") : "";
+        if (cls) attrs["interaction.target_class"] = cls.slice(0, MAX_CLASS);
+
+        const id = el.id || el.getAttribute?.("data-testid") || el.getAttribute?.("aria-label");
+        if (id) attrs["interaction.target_id"] = id;
+
+        if (this.options.captureText && !isFormField(el)) {
+            const text = (el.textContent ?? "").trim().replace(/\s+/g, " ");
+            if (text) attrs["interaction.target_text"] = text.slice(0, MAX_TEXT);
+        }
+        return attrs;
+    }
+}
+
+function resolveTarget(node: any): any {
+    // text-node targets (older Safari) → their parent element
+    const el = node && node.nodeType === 3 ? node.parentElement : node;
+    if (!el || typeof el.tagName !== "string") return undefined;
+    return el.closest?.(INTERACTIVE) ?? el;
+}
+
+function isFormField(el: any): boolean {
+    const tag = el.tagName.toLowerCase();
+    return tag === "input" || tag === "textarea" || tag === "select" || el.isContentEditable === true;
+}
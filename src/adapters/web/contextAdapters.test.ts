@@ -1,6 +1,8 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import { NetworkInfoTrackerWeb } from "./networkInfo.web";
 import { DeviceInfoTrackerWeb } from "./deviceInfo.web";
+import { IdentityStore } from "../../core/identity";
+import { MemoryStore } from "../../core/storage";
 
 // ADR-0002: device/network data is context on every event, not its own event.
 // start() registers the handler; it must NOT emit a standalone device_info/network_info event.
@@ -28,3 +30,33 @@ describe("web context adapters — no standalone events (ADR-0002)", () => {
     expect(logged).not.toContain("device_info");
   });
 });
+
+describe("DeviceInfoTrackerWeb — stable device.id", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  function stubBrowser() {
+    vi.stubGlobal("navigator", { userAgent: "ua", platform: "p", appVersion: "5.0", vendor: "v" });
+    vi.stubGlobal("document", { title: "App" });
+    vi.stubGlobal("window", { location: { hostname: "app.example.com" } });
+  }
+
+  it("reuses one contract-format id (no OS suffix) across collect() calls", async () => {
+    stubBrowser();
+    const tracker = new DeviceInfoTrackerWeb(new IdentityStore(new MemoryStore()));
+
+    const a = await tracker.collect();
+    const b = await tracker.collect();
+
+    expect(a.device.id).toMatch(/^device_\d+_[0-9a-f]{16}$/);
+    expect(b.device.id).toBe(a.device.id);
+  });
+
+  it("restores the persisted id on the next page load", async () => {
+    stubBrowser();
+    const storage = new MemoryStore();
+    const first = await new DeviceInfoTrackerWeb(new IdentityStore(storage)).collect();
+    const second = await new DeviceInfoTrackerWeb(new IdentityStore(storage)).collect();
+
+    expect(second.device.id).toBe(first.device.id);
+  });
+});
@@ -1,16 +1,20 @@
 // adapters/web/deviceInfoWeb.web.ts
-import { v4 as uuidv4 } from "uuid";
 import { DeviceInfo, Telemetry } from "../../core/telemetry";
+import { IdentityStore } from "../../core/identity";
+import { MemoryStore } from "../../core/storage";
 
 export class DeviceInfoTrackerWeb {
     private telemetry?: Telemetry;
 
 
-    constructor() {
+    // Pass the core's store so device.id is the same persisted value the Context block uses.
+    constructor(private identity: IdentityStore = new IdentityStore(new MemoryStore())) {
     }
     async collect(): Promise<DeviceInfo> {
         const ua = navigator.userAgent;
         const platform = navigator.platform;
+        // one persisted id per browser profile; no OS suffix on web (contract suffix is ios|android)
+        const deviceId = await this.identity.loadDeviceId();
 
         return {
             app: {
@@ -20,7 +24,7 @@ export class DeviceInfoTrackerWeb {
                 packageName: window.location.hostname,
             },
             device: {
-                id: `device_${Date.now()}_${uuidv4()}_web`,
+                id: deviceId,
                 platform: "web",
                 platformVersion: navigator.appVersion,
                 model: ua,
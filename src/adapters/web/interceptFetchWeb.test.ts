@@ -8,6 +8,7 @@ function fakeTelemetry(endpoint?: string) {
     telemetry: {
       log: vi.fn((name: string, data?: any) => { calls.push({ name, data }); }),
       getEndpoint: () => endpoint,
+      requestStarted: vi.fn(),
     } as any,
     calls,
   };
@@ -39,6 +40,7 @@ describe("NetworkTrackerWeb — http.request (v3)", () => {
     await new NetworkTrackerWeb(telemetry).start();
     await g.window.fetch("https://api.example.com/v1/users", { method: "POST", body: "hello" });
 
+    expect(telemetry.requestStarted).toHaveBeenCalledTimes(1);
     expect(calls).toHaveLength(1);
     const { name, data } = calls[0];
     expect(name).toBe("http.request");
@@ -62,6 +64,7 @@ describe("NetworkTrackerWeb — http.request (v3)", () => {
     await g.window.fetch(endpoint, { method: "POST", body: "{}" });
 
     expect(calls).toHaveLength(0);
+    expect(telemetry.requestStarted).not.toHaveBeenCalled();
   });
 
   it("XHR emits http.request (lockstep with fetch)", async () => {
@@ -74,6 +77,8 @@ describe("NetworkTrackerWeb — http.request (v3)", () => {
     const xhr: any = new g.XMLHttpRequest();
     xhr.open("GET", "https://api.example.com/ping");
     xhr.send();
+    expect(telemetry.requestStarted).toHaveBeenCalledTimes(1);   // on send, before completion
+    expect(calls).toHaveLength(0);
     xhr._l.loadend();   // fire completion
 
     expect(calls).toHaveLength(1);
@@ -44,9 +44,14 @@ export class NetworkTrackerWeb {
                 init?: RequestInit
             ): Promise<Response> => {
                 const start = Date.now();
+                const url = typeof input === "string" ? input : input.toString();
+                // Never self-capture the SDK's own collector POST
+                const endpoint = telemetry.getEndpoint?.();
+                const own = !!endpoint && url.startsWith(endpoint);
                 let response: Response | null = null;
                 let error: any = null;
 
+                if (!own) telemetry.requestStarted();
                 try {
                     response = await originalFetch(input, init);
                     return response;
@@ -55,11 +60,7 @@ export class NetworkTrackerWeb {
                     throw err;
                 } finally {
                     const end = Date.now();
-                    const url = typeof input === "string" ? input : input.toString();
-
-                    // Never self-capture the SDK's own collector POST
-                    const endpoint = telemetry.getEndpoint?.();
-                    if (!(endpoint && url.startsWith(endpoint))) {
+                    if (!own) {
                         const responseSize = response
                             ? Number(response.headers.get("content-length") ?? 0)
                             : 0;
@@ -110,13 +111,14 @@ export class NetworkTrackerWeb {
                 const t = (this as any)._telemetry;
                 t.start = Date.now();
 
+                // Never self-capture the SDK's own collector POST
+                const endpoint = telemetry.getEndpoint?.();
+                if (endpoint && String(t.url).startsWith(endpoint)) return origSend.apply(this, arguments as any);
+                telemetry.requestStarted();
+
                 this.addEventListener("loadend", () => {
                     const durationMs = Date.now() - t.start;
 
-                    // Never self-capture the SDK's own collector POST
-                    const endpoint = telemetry.getEndpoint?.();
-                    if (endpoint && String(t.url).startsWith(endpoint)) return;
-
                     const responseSize = Number(this.getResponseHeader("content-length") ?? 0);
 
                     telemetry.log("http.request", buildHttpAttributes({
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { LongTaskTrackerWeb } from "./longTask.web";
+
+function stubObserver(supportedEntryTypes: string[]) {
+  let callback: ((list: any) => void) | undefined;
+  const observed: string[] = [];
+  vi.stubGlobal("PerformanceObserver", class {
+    static supportedEntryTypes = supportedEntryTypes;
+    constructor(cb: (list: any) => void) { callback = cb; }
+    observe(opts: { type: string }) { observed.push(opts.type); }
+  });
+  vi.stubGlobal("window", { location: { pathname: "/feed" } });
+  return { observed, emit: (entries: any[]) => callback?.({ getEntries: () => entries }) };
+}
+
+describe("LongTaskTrackerWeb", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("prefers LoAF and attributes the frame to its slowest script", async () => {
+    const o = stubObserver(["longtask", "long-animation-frame"]);
+    const telemetry = { logMetric: vi.fn(), currentScreen: "Checkout" };
+    await new LongTaskTrackerWeb(telemetry as any).start();
+    expect(o.observed).toEqual(["long-animation-frame"]);
+
+    o.emit([{
+      entryType: "long-animation-frame", duration: 180, blockingDuration: 130,
+      scripts: [
+        { duration: 20, sourceURL: "https://app/vendor.js", sourceFunctionName: "tick", invoker: "TimerHandler:setTimeout" },
+        { duration: 140, sourceURL: "https://app/main.js", sourceFunctionName: "renderList", invoker: "BUTTON#load.onclick" },
+      ],
+    }]);
+
+    expect(telemetry.logMetric).toHaveBeenCalledWith("long_task", 180, {
+      "long_task.duration_ms": 180,
+      "long_task.source": "long-animation-frame",
+      "long_task.screen": "Checkout",
+      "long_task.blocking_ms": 130,
+      "long_task.script_url": "https://app/main.js",
+      "long_task.script_function": "renderList",
+      "long_task.script_invoker": "BUTTON#load.onclick",
+    });
+  });
+
+  it("falls back to the Long Tasks API, with the path as the screen", async () => {
+    const o = stubObserver(["longtask"]);
+    const telemetry = { logMetric: vi.fn() };
+    await new LongTaskTrackerWeb(telemetry as any).start();
+    expect(o.observed).toEqual(["longtask"]);
+
+    o.emit([{ entryType: "longtask", duration: 75 }]);
+
+    expect(telemetry.logMetric).toHaveBeenCalledWith("long_task", 75, {
+      "long_task.duration_ms": 75,
+      "long_task.source": "longtask",
+      "long_task.screen": "/feed",
+    });
+  });
+
+  it("throttles a janky page", async () => {
+    const o = stubObserver(["longtask"]);
+    const telemetry = { logMetric: vi.fn() };
+    await new LongTaskTrackerWeb(telemetry as any, { maxPerWindow: 5 }).start();
+
+    o.emit(Array.from({ length: 40 }, () => ({ entryType: "longtask", duration: 60 })));
+
+    expect(telemetry.logMetric).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,68 @@
+import { Telemetry } from "../../core/telemetry";
+import { debug } from "../../core/debug";
+import { WindowLimiter } from "../windowLimiter";
+
+export interface LongTaskOptions {
+    maxPerWindow?: number;   // default 20 long tasks…
+    windowMs?: number;       // …per 60 s
+}
+
+/**
+ * `long_task` metrics (web-only, ADR-0004), value = task duration in ms. Prefers the Long
+ * Animation Frames API, which attributes the frame to the slowest script (URL + function);
+ * falls back to the Long Tasks API, which only says the main thread was blocked.
+ * Throttled with a fixed window so a janky page can't flood the queue.
+ */
+export class LongTaskTrackerWeb {
+    private limiter: WindowLimiter;
+
+    constructor(private telemetry: Telemetry, options?: LongTaskOptions) {
+        this.limiter = new WindowLimiter(options?.maxPerWindow ?? 20, options?.windowMs ?? 60_000);
+    }
+
+    start(): Promise<void> {
+        return new Promise((resolve) => {
+            if (typeof PerformanceObserver === "undefined") {
+                resolve();
+                return;
+            }
+            const type = PerformanceObserver.supportedEntryTypes?.includes("long-animation-frame")
+                ? "long-animation-frame"
+                : "longtask";
+            try {
+                const observer = new PerformanceObserver((list) => list.getEntries().forEach((e) => this.record(e)));
+                observer.observe({ type, buffered: true });
+            } catch (err) {
+                debug.log("LongTaskTrackerWeb: long task entries unsupported", err);
+            }
+            resolve();
+        });
+    }
+
+    private record(entry: any): void {
+        if (!this.limiter.tryAcquire()) return;
+
+        const attrs: Record<string, any> = {
+            "long_task.duration_ms": entry.duration,
+            "long_task.source": entry.entryType,
+        };
+        const screen = this.telemetry.currentScreen ?? window.location?.pathname;
+        if (screen) attrs["long_task.screen"] = screen;
+
+        if (entry.entryType === "long-animation-frame") {
+            attrs["long_task.blocking_ms"] = entry.blockingDuration;
+            const script = slowestScript(entry.scripts);
+            if (script?.sourceURL) attrs["long_task.script_url"] = script.sourceURL;
+            if (script?.sourceFunctionName) attrs["long_task.script_function"] = script.sourceFunctionName;
+            if (script?.invoker) attrs["long_task.script_invoker"] = script.invoker;
+        }
+
+        this.telemetry.logMetric("long_task", entry.duration, attrs);
+    }
+}
+
+function slowestScript(scripts?: any[]): any {
+    let slowest: any;
+    for (const s of scripts ?? []) if (!slowest || s.duration > slowest.duration) slowest = s;
+    return slowest;
+}
@@ -24,6 +24,7 @@ export class NavigationTrackerWeb {
     start(): Promise<void> {
         return new Promise((resolve) => {
             this.currentPath = window.location.pathname + window.location.search;
+            this.telemetry.currentScreen = this.currentPath;   // screen for user.interaction clicks (#33)
             this.patchHistory();
             this.listenPopState();
             resolve();
@@ -38,11 +39,7 @@ export class NavigationTrackerWeb {
         const origPush = history.pushState.bind(history);
         const origReplace = history.replaceState.bind(history);
 
-        const handleChange = () => {
-            const newPath = window.location.pathname + window.location.search;
-            this.tracker.recordRouteChange(this.currentPath, newPath);
-            this.currentPath = newPath;
-        };
+        const handleChange = () => this.onRouteChange();
 
         history.pushState = (
             (data: any, unused: string, url?: string | URL | null) => {
@@ -64,10 +61,13 @@ export class NavigationTrackerWeb {
      * to detect route changes triggered by browser controls.
      */
     private listenPopState(): void {
-        window.addEventListener("popstate", () => {
-            const newPath = window.location.pathname + window.location.search;
-            this.tracker.recordRouteChange(this.currentPath, newPath);
-            this.currentPath = newPath;
-        });
+        window.addEventListener("popstate", () => this.onRouteChange());
+    }
+
+    private onRouteChange(): void {
+        const newPath = window.location.pathname + window.location.search;
+        this.tracker.recordRouteChange(this.currentPath, newPath);
+        this.currentPath = newPath;
+        this.telemetry.currentScreen = newPath;
     }
 }
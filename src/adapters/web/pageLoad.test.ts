@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { PageLoadTrackerWeb } from "./pageLoad.web";
+
+const NAV = {
+  type: "navigate",
+  domainLookupStart: 5, domainLookupEnd: 25,
+  connectStart: 25, secureConnectionStart: 40, connectEnd: 90,
+  requestStart: 95, responseStart: 180,
+  domContentLoadedEventEnd: 640, loadEventEnd: 1210,
+  transferSize: 48_000,
+};
+
+function stubBrowser(readyState: string, nav: any = NAV) {
+  const listeners: Record<string, () => void> = {};
+  vi.stubGlobal("document", { readyState });
+  vi.stubGlobal("window", {
+    location: { pathname: "/checkout" },
+    addEventListener: (type: string, fn: () => void) => { listeners[type] = fn; },
+  });
+  vi.spyOn(performance, "getEntriesByType").mockReturnValue(nav ? [nav] : []);
+  return { fire: (type: string) => listeners[type]?.() };
+}
+
+describe("PageLoadTrackerWeb", () => {
+  beforeEach(() => vi.restoreAllMocks());
+  afterEach(() => { vi.unstubAllGlobals(); vi.useRealTimers(); });
+
+  it("emits one page_load from Navigation Timing when the page already loaded", async () => {
+    stubBrowser("complete");
+    const telemetry = { log: vi.fn() };
+    await new PageLoadTrackerWeb(telemetry as any).start();
+
+    expect(telemetry.log).toHaveBeenCalledTimes(1);
+    expect(telemetry.log).toHaveBeenCalledWith("page_load", {
+      "page_load.navigation_type": "navigate",
+      "page_load.path": "/checkout",
+      "page_load.dns_ms": 20,
+      "page_load.connect_ms": 65,
+      "page_load.tls_ms": 50,
+      "page_load.ttfb_ms": 180,
+      "page_load.dom_content_loaded_ms": 640,
+      "page_load.load_ms": 1210,
+      "page_load.transfer_size": 48_000,
+    });
+  });
+
+  it("waits for the load event to finish before reading the entry", async () => {
+    vi.useFakeTimers();
+    const b = stubBrowser("interactive");
+    const telemetry = { log: vi.fn() };
+    await new PageLoadTrackerWeb(telemetry as any).start();
+    expect(telemetry.log).not.toHaveBeenCalled();
+
+    b.fire("load");
+    vi.runAllTimers();
+    expect(telemetry.log).toHaveBeenCalledTimes(1);
+    expect(telemetry.log.mock.calls[0][0]).toBe("page_load");
+  });
+
+  it("omits tls_ms on plain http and emits nothing without a navigation entry", async () => {
+    stubBrowser("complete", { ...NAV, secureConnectionStart: 0 });
+    const telemetry = { log: vi.fn() };
+    await new PageLoadTrackerWeb(telemetry as any).start();
+    expect(telemetry.log.mock.calls[0][1]).not.toHaveProperty("page_load.tls_ms");
+
+    stubBrowser("complete", null);
+    const other = { log: vi.fn() };
+    await new PageLoadTrackerWeb(other as any).start();
+    expect(other.log).not.toHaveBeenCalled();
+  });
+});
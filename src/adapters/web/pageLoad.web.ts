@@ -0,0 +1,52 @@
+import { Telemetry } from "../../core/telemetry";
+
+/**
+ * One `page_load` event per hard navigation (ADR-0004), read from the
+ * PerformanceNavigationTiming entry once the load event has finished. All timings are ms from
+ * navigation start except the per-phase durations (dns/connect/tls); SPA route changes are
+ * `navigation` events, not page loads, and a bfcache restore is not a load either.
+ */
+export class PageLoadTrackerWeb {
+    private emitted = false;
+
+    constructor(private telemetry: Telemetry) { }
+
+    start(): Promise<void> {
+        return new Promise((resolve) => {
+            if (typeof window === "undefined" || typeof performance === "undefined" || !performance.getEntriesByType) {
+                resolve();
+                return;
+            }
+
+            if (document.readyState === "complete") {
+                this.record();
+            } else {
+                // loadEventEnd is only populated after the load handlers return
+                window.addEventListener("load", () => setTimeout(() => this.record(), 0), { once: true });
+            }
+            resolve();
+        });
+    }
+
+    private record(): void {
+        if (this.emitted) return;
+        const nav: any = performance.getEntriesByType("navigation")[0];
+        if (!nav || !nav.loadEventEnd) return;   // Navigation Timing L2 unsupported
+        this.emitted = true;
+
+        const attrs: Record<string, any> = {
+            "page_load.navigation_type": nav.type,
+            "page_load.path": window.location?.pathname,
+            "page_load.dns_ms": nav.domainLookupEnd - nav.domainLookupStart,
+            "page_load.connect_ms": nav.connectEnd - nav.connectStart,
+            "page_load.ttfb_ms": nav.responseStart,
+            "page_load.dom_content_loaded_ms": nav.domContentLoadedEventEnd,
+            "page_load.load_ms": nav.loadEventEnd,
+            "page_load.transfer_size": nav.transferSize,   // 0 when served from the HTTP cache
+        };
+        // secureConnectionStart is 0 on plain http and on a reused connection
+        if (nav.secureConnectionStart > 0) attrs["page_load.tls_ms"] = nav.connectEnd - nav.secureConnectionStart;
+
+        this.telemetry.log("page_load", attrs);
+    }
+}
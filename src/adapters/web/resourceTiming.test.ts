@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ResourceTimingTrackerWeb } from "./resourceTiming.web";
+
+function stubObserver() {
+  let callback: ((list: any) => void) | undefined;
+  vi.stubGlobal("PerformanceObserver", class {
+    constructor(cb: (list: any) => void) { callback = cb; }
+    observe() {}
+  });
+  return (entries: any[]) => callback?.({ getEntries: () => entries });
+}
+
+function fakeTelemetry(endpoint?: string) {
+  return { logMetric: vi.fn(), getEndpoint: () => endpoint };
+}
+
+const entry = (over: any = {}) => ({
+  name: "https://cdn.example.com/app.js",
+  initiatorType: "script",
+  duration: 120,
+  domainLookupStart: 10, domainLookupEnd: 15,
+  connectStart: 15, secureConnectionStart: 20, connectEnd: 40,
+  requestStart: 41, responseStart: 90, responseEnd: 130,
+  transferSize: 5120,
+  ...over,
+});
+
+describe("ResourceTimingTrackerWeb", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("emits resource_timing with iOS resource.* keys by default", async () => {
+    const emit = stubObserver();
+    const telemetry = fakeTelemetry();
+    await new ResourceTimingTrackerWeb(telemetry as any).start();
+
+    emit([entry()]);
+
+    expect(telemetry.logMetric).toHaveBeenCalledWith("resource_timing", 120, {
+      "resource.url": "https://cdn.example.com/app.js",
+      "resource.host": "cdn.example.com",
+      "resource.type": "script",
+      "resource.duration_ms": 120,
+      "resource.dns_ms": 5,
+      "resource.connect_ms": 25,
+      "resource.tls_ms": 20,
+      "resource.ttfb_ms": 49,
+      "resource.download_ms": 40,
+      "resource.transfer_size": 5120,
+    });
+  });
+
+  it("switches to the Angular metric.* keys in metric mode", async () => {
+    const emit = stubObserver();
+    const telemetry = fakeTelemetry();
+    await new ResourceTimingTrackerWeb(telemetry as any, { namespace: "metric" }).start();
+
+    emit([entry({ initiatorType: "xmlhttprequest", name: "https://api.example.com/items" })]);
+
+    expect(telemetry.logMetric).toHaveBeenCalledWith("resource_timing", 120, {
+      "metric.unit": "ms",
+      "metric.resource_name": "https://api.example.com/items",
+      "metric.resource_type": "xhr",
+      "metric.transfer_size": 5120,
+    });
+  });
+
+  it("omits phase timings for opaque cross-origin entries", async () => {
+    const emit = stubObserver();
+    const telemetry = fakeTelemetry();
+    await new ResourceTimingTrackerWeb(telemetry as any).start();
+
+    emit([entry({ initiatorType: "img", requestStart: 0, transferSize: 0 })]);
+
+    const attrs = telemetry.logMetric.mock.calls[0][2];
+    expect(attrs["resource.type"]).toBe("img");
+    expect(attrs).not.toHaveProperty("resource.dns_ms");
+    expect(attrs).not.toHaveProperty("resource.transfer_size");
+  });
+
+  it("skips the collector endpoint and uncollected initiator types", async () => {
+    const emit = stubObserver();
+    const telemetry = fakeTelemetry("https://collector.example.com/collector/telemetry");
+    await new ResourceTimingTrackerWeb(telemetry as any).start();
+
+    emit([
+      entry({ initiatorType: "fetch", name: "https://collector.example.com/collector/telemetry" }),
+      entry({ initiatorType: "beacon" }),
+      entry({ initiatorType: "iframe" }),
+      entry({ initiatorType: "link", name: "https://cdn.example.com/app.css" }),
+    ]);
+
+    expect(telemetry.logMetric).toHaveBeenCalledTimes(1);
+    expect(telemetry.logMetric.mock.calls[0][2]["resource.type"]).toBe("css");
+  });
+
+  it("caps the number of entries per window", async () => {
+    const emit = stubObserver();
+    const telemetry = fakeTelemetry();
+    await new ResourceTimingTrackerWeb(telemetry as any, { maxPerWindow: 3 }).start();
+
+    emit(Array.from({ length: 10 }, (_, i) => entry({ name: `https://cdn.example.com/${i}.js` })));
+
+    expect(telemetry.logMetric).toHaveBeenCalledTimes(3);
+  });
+});
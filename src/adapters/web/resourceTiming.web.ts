@@ -0,0 +1,102 @@
+import { Telemetry } from "../../core/telemetry";
+import { debug } from "../../core/debug";
+import { WindowLimiter } from "../windowLimiter";
+
+/**
+ * Attribute namespace for `resource_timing` — the open reconciliation in the additions ledger:
+ * `resource` = iOS `resource.url/host/dns_ms/…`, `metric` = Angular/reference
+ * `metric.unit/resource_name/resource_type/transfer_size`. Flip once the backend picks.
+ */
+export type ResourceTimingNamespace = "resource" | "metric";
+
+export interface ResourceTimingOptions {
+    namespace?: ResourceTimingNamespace;   // default "resource" (iOS, ADR-0005)
+    maxPerWindow?: number;                 // default 50 entries…
+    windowMs?: number;                     // …per 60 s
+}
+
+// initiatorType → resource.type; anything else (beacon, iframe, other…) is not collected
+const TYPES: Record<string, string> = {
+    script: "script",
+    img: "img",
+    link: "css",          // <link rel=stylesheet>
+    css: "css",           // url() inside a stylesheet
+    fetch: "fetch",
+    xmlhttprequest: "xhr",
+};
+
+/**
+ * `resource_timing` metrics (web-only, ADR-0004) from PerformanceObserver `resource` entries:
+ * one metric per script / image / css / fetch / xhr, value = entry duration in ms.
+ * The SDK's own collector POST is skipped, and a fixed window caps the volume; entries over
+ * the cap are dropped, not queued.
+ */
+export class ResourceTimingTrackerWeb {
+    private namespace: ResourceTimingNamespace;
+    private limiter: WindowLimiter;
+
+    constructor(private telemetry: Telemetry, options?: ResourceTimingOptions) {
+        this.namespace = options?.namespace ?? "resource";
+        this.limiter = new WindowLimiter(options?.maxPerWindow ?? 50, options?.windowMs ?? 60_000);
+    }
+
+    start(): Promise<void> {
+        return new Promise((resolve) => {
+            if (typeof PerformanceObserver === "undefined") {
+                resolve();
+                return;
+            }
+            try {
+                const observer = new PerformanceObserver((list) => list.getEntries().forEach((e) => this.record(e)));
+                observer.observe({ type: "resource", buffered: true });
+            } catch (err) {
+                debug.log("ResourceTimingTrackerWeb: resource entries unsupported", err);
+            }
+            resolve();
+        });
+    }
+
+    private record(entry: any): void {
+        const type = TYPES[entry.initiatorType];
+        if (!type) return;
+        const endpoint = this.telemetry.getEndpoint?.();
+        if (endpoint && entry.name.startsWith(endpoint)) return;   // never self-capture
+        if (!this.limiter.tryAcquire()) return;
+
+        const attrs = this.namespace === "metric" ? metricAttributes(entry, type) : resourceAttributes(entry, type);
+        this.telemetry.logMetric("resource_timing", entry.duration, attrs);
+    }
+}
+
+function resourceAttributes(entry: any, type: string): Record<string, any> {
+    const attrs: Record<string, any> = {
+        "resource.url": entry.name,
+        "resource.type": type,
+        "resource.duration_ms": entry.duration,
+    };
+    try {
+        attrs["resource.host"] = new URL(entry.name).host;
+    } catch {
+        // unparsable name → no host; the rest still ships
+    }
+    // cross-origin without Timing-Allow-Origin zeroes the phase timings — omit rather than lie
+    if (entry.requestStart > 0) {
+        attrs["resource.dns_ms"] = entry.domainLookupEnd - entry.domainLookupStart;
+        attrs["resource.connect_ms"] = entry.connectEnd - entry.connectStart;
+        if (entry.secureConnectionStart > 0) attrs["resource.tls_ms"] = entry.connectEnd - entry.secureConnectionStart;
+        attrs["resource.ttfb_ms"] = entry.responseStart - entry.requestStart;
+        attrs["resource.download_ms"] = entry.responseEnd - entry.responseStart;
+        attrs["resource.transfer_size"] = entry.transferSize;
+    }
+    return attrs;
+}
+
+function metricAttributes(entry: any, type: string): Record<string, any> {
+    const attrs: Record<string, any> = {
+        "metric.unit": "ms",
+        "metric.resource_name": entry.name,
+        "metric.resource_type": type,
+    };
+    if (entry.requestStart > 0) attrs["metric.transfer_size"] = entry.transferSize;
+    return attrs;
+}
@@ -0,0 +1,31 @@
+import { MemoryStore, type KeyValueStore } from "../../core/storage";
+
+/**
+ * localStorage-backed store for persisted SDK state (identity, session). Falls back to
+ * process memory where localStorage is missing or throws (SSR, some private modes), so
+ * the SDK still runs — it just can't carry state across reloads there.
+ */
+export class StorageWeb implements KeyValueStore {
+    private fallback = new MemoryStore();
+
+    async getItem(key: string): Promise<string | null> {
+        try {
+            if (typeof localStorage !== "undefined") return localStorage.getItem(key);
+        } catch { /* fall through to memory */ }
+        return this.fallback.getItem(key);
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        try {
+            if (typeof localStorage !== "undefined") return localStorage.setItem(key, value);
+        } catch { /* fall through to memory */ }
+        return this.fallback.setItem(key, value);
+    }
+
+    async removeItem(key: string): Promise<void> {
+        try {
+            if (typeof localStorage !== "undefined") return localStorage.removeItem(key);
+        } catch { /* fall through to memory */ }
+        return this.fallback.removeItem(key);
+    }
+}
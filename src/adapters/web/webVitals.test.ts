@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { WebVitalsTrackerWeb, rateVital } from "./webVitals.web";
+
+// Minimal browser: PerformanceObserver callbacks keyed by entry type, plus window/document listeners.
+function stubBrowser(nav: any = { type: "navigate", responseStart: 300, requestStart: 100, domainLookupStart: 0, domainLookupEnd: 20, connectStart: 20, connectEnd: 60 }) {
+  const observers: Record<string, (list: any) => void> = {};
+  const listeners: Record<string, Array<(e?: any) => void>> = {};
+  const on = (type: string, fn: (e?: any) => void) => { (listeners[type] ??= []).push(fn); };
+
+  vi.stubGlobal("PerformanceObserver", class {
+    constructor(private cb: (list: any) => void) {}
+    observe(opts: { type: string }) { observers[opts.type] = this.cb; }
+  });
+  const doc = { visibilityState: "visible", addEventListener: on };
+  vi.stubGlobal("document", doc);
+  vi.stubGlobal("window", { addEventListener: on });
+  vi.stubGlobal("requestAnimationFrame", (fn: () => void) => fn());
+  vi.spyOn(performance, "getEntriesByType").mockReturnValue(nav ? [nav] : []);
+
+  return {
+    entries(type: string, list: any[]) { observers[type]?.({ getEntries: () => list }); },
+    fire(type: string, event?: any) { for (const fn of listeners[type] ?? []) fn(event); },
+    hide() { doc.visibilityState = "hidden"; this.fire("visibilitychange"); },
+  };
+}
+
+function fakeTelemetry() {
+  const metrics: Array<{ name: string; value: number; attrs: Record<string, any> }> = [];
+  const telemetry = {
+    logMetric: vi.fn(async (name: string, value: number, attrs: any) => { metrics.push({ name, value, attrs }); }),
+    flush: vi.fn(async () => {}),
+  };
+  return { telemetry, metrics, byName: (n: string) => metrics.filter(m => m.name === n) };
+}
+
+const settle = () => new Promise(r => setTimeout(r, 0));
+
+describe("WebVitalsTrackerWeb", () => {
+  beforeEach(() => vi.restoreAllMocks());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("rates against the web.dev thresholds", () => {
+    expect(rateVital("LCP", 2500)).toBe("good");
+    expect(rateVital("LCP", 3000)).toBe("needs-improvement");
+    expect(rateVital("CLS", 0.3)).toBe("poor");
+    expect(rateVital("INP", 200)).toBe("good");
+  });
+
+  it("reports TTFB from the navigation entry and FCP as soon as it paints", async () => {
+    const b = stubBrowser();
+    const { telemetry, byName } = fakeTelemetry();
+    await new WebVitalsTrackerWeb(telemetry as any).start();
+
+    b.entries("paint", [{ name: "first-paint", startTime: 400 }, { name: "first-contentful-paint", startTime: 900 }]);
+
+    expect(byName("TTFB")[0]).toMatchObject({
+      value: 300,
+      attrs: { "vital.rating": "good", "vital.navigation_type": "navigate", "vital.dns_ms": 20, "vital.connect_ms": 40, "vital.request_ms": 200 },
+    });
+    expect(byName("FCP")).toEqual([{ name: "FCP", value: 900, attrs: { "vital.rating": "good", "vital.navigation_type": "navigate" } }]);
+  });
+
+  it("holds LCP/CLS/INP until the page is hidden, then reports each once and flushes", async () => {
+    const b = stubBrowser();
+    const { telemetry, byName } = fakeTelemetry();
+    await new WebVitalsTrackerWeb(telemetry as any).start();
+
+    b.entries("largest-contentful-paint", [
+      { startTime: 1200, element: { tagName: "H1" } },
+      { startTime: 4200, element: { tagName: "IMG", id: "hero", className: "banner wide extra" }, url: "https://cdn/x.png" },
+    ]);
+    b.entries("layout-shift", [
+      { startTime: 100, value: 0.05, sources: [{ node: { tagName: "DIV", className: "ad" } }] },
+      { startTime: 600, value: 0.1, hadRecentInput: true },   // user-driven: ignored
+      { startTime: 900, value: 0.02 },
+      { startTime: 3000, value: 0.04 },                       // new window (gap > 1 s)
+    ]);
+    b.entries("event", [
+      { interactionId: 7, name: "pointerdown", duration: 80, startTime: 5000, processingStart: 5010, processingEnd: 5050, target: { tagName: "BUTTON" } },
+      { interactionId: 7, name: "click", duration: 320, startTime: 5000, processingStart: 5030, processingEnd: 5200, target: { tagName: "BUTTON", id: "buy" } },
+      { interactionId: 0, name: "mousemove", duration: 900, startTime: 5100 },   // not an interaction
+    ]);
+    expect(byName("LCP")).toHaveLength(0);
+
+    b.hide();
+    b.fire("pagehide");
+    await settle();
+
+    expect(byName("LCP")).toEqual([{
+      name: "LCP", value: 4200,
+      attrs: { "vital.rating": "poor", "vital.navigation_type": "navigate", "vital.element": "img#hero.banner.wide", "vital.resource_url": "https://cdn/x.png" },
+    }]);
+    expect(byName("CLS")).toHaveLength(1);
+    expect(byName("CLS")[0].value).toBeCloseTo(0.07);
+    expect(byName("CLS")[0].attrs).toMatchObject({ "vital.rating": "good", "vital.largest_shift_target": "div.ad", "vital.largest_shift_value": 0.05 });
+    expect(byName("INP")).toEqual([{
+      name: "INP", value: 320,
+      attrs: {
+        "vital.rating": "needs-improvement", "vital.navigation_type": "navigate", "vital.event_type": "click", "vital.element": "button#buy",
+        "vital.input_delay_ms": 30, "vital.processing_ms": 170, "vital.presentation_delay_ms": 120,
+      },
+    }]);
+    expect(telemetry.flush).toHaveBeenCalled();
+  });
+
+  it("INP skips one outlier per 50 interactions instead of taking the slowest", async () => {
+    const b = stubBrowser();
+    const { telemetry, byName } = fakeTelemetry();
+    await new WebVitalsTrackerWeb(telemetry as any).start();
+
+    // 120 interactions: durations 100..219 ms → p98 is the third slowest
+    b.entries("event", Array.from({ length: 120 }, (_, i) => ({
+      interactionId: i + 1, name: "click", duration: 100 + i, startTime: i * 10, processingStart: i * 10, processingEnd: i * 10,
+    })));
+    b.hide();
+    await settle();
+
+    expect(byName("INP").map(m => m.value)).toEqual([217]);
+  });
+
+  it("stops LCP at the first input", async () => {
+    const b = stubBrowser();
+    const { telemetry, byName } = fakeTelemetry();
+    await new WebVitalsTrackerWeb(telemetry as any).start();
+
+    b.entries("largest-contentful-paint", [{ startTime: 1500 }]);
+    b.fire("click");
+    b.entries("largest-contentful-paint", [{ startTime: 2600 }]);
+    b.hide();
+    await settle();
+
+    expect(byName("LCP").map(m => m.value)).toEqual([1500]);
+  });
+
+  it("starts a fresh round after a bfcache restore", async () => {
+    const b = stubBrowser();
+    const { telemetry, byName } = fakeTelemetry();
+    await new WebVitalsTrackerWeb(telemetry as any).start();
+    b.entries("paint", [{ name: "first-contentful-paint", startTime: 900 }]);
+    b.entries("layout-shift", [{ startTime: 100, value: 0.3 }]);
+    b.hide();
+    await settle();
+
+    vi.spyOn(performance, "now").mockReturnValue(10_050);
+    b.fire("pageshow", { persisted: true, timeStamp: 10_000 });
+    b.hide();
+    await settle();
+
+    expect(byName("FCP").map(m => [m.value, m.attrs["vital.navigation_type"]])).toEqual([[900, "navigate"], [50, "back-forward-cache"]]);
+    expect(byName("LCP")[byName("LCP").length - 1]).toMatchObject({ value: 50, attrs: { "vital.navigation_type": "back-forward-cache" } });
+    expect(byName("CLS").map(m => m.value)).toEqual([0.3, 0]);   // restored page starts clean
+  });
+
+  it("ignores a non-persisted pageshow and is a no-op without PerformanceObserver", async () => {
+    const b = stubBrowser();
+    const { telemetry, metrics } = fakeTelemetry();
+    await new WebVitalsTrackerWeb(telemetry as any).start();
+    const before = metrics.length;
+    b.fire("pageshow", { persisted: false, timeStamp: 0 });
+    expect(metrics.length).toBe(before);
+
+    vi.stubGlobal("PerformanceObserver", undefined);
+    const other = fakeTelemetry();
+    await expect(new WebVitalsTrackerWeb(other.telemetry as any).start()).resolves.toBeUndefined();
+    expect(other.metrics).toEqual([]);
+  });
+});
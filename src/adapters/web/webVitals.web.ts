@@ -0,0 +1,219 @@
+import { Telemetry } from "../../core/telemetry";
+
+type VitalName = "LCP" | "FCP" | "CLS" | "INP" | "TTFB";
+export type VitalRating = "good" | "needs-improvement" | "poor";
+
+// web.dev boundaries: value ≤ first → good, ≤ second → needs-improvement, else poor.
+const THRESHOLDS: Record<VitalName, [number, number]> = {
+    LCP: [2500, 4000],
+    FCP: [1800, 3000],
+    CLS: [0.1, 0.25],
+    INP: [200, 500],
+    TTFB: [800, 1800],
+};
+
+// page-lifetime vitals: reported once, when the page is hidden (or LCP at first input)
+const PAGE_LIFETIME: VitalName[] = ["LCP", "CLS", "INP"];
+
+export function rateVital(name: VitalName, value: number): VitalRating {
+    const [good, poor] = THRESHOLDS[name];
+    return value <= good ? "good" : value <= poor ? "needs-improvement" : "poor";
+}
+
+/** Short `tag#id.class` descriptor for attribution — structure only, never text content. */
+export function describeElement(el: any): string | undefined {
+    if (!el || typeof el.tagName !== "string") return undefined;
+    let out = el.tagName.toLowerCase();
+    if (el.id) out += `#${el.id}`;
+    const classes = typeof el.className === "string" ? el.className.trim().split(/\s+/).filter(Boolean) : [];
+    for (const c of classes.slice(0, 2)) out += `.${c}`;
+    return out;
+}
+
+function navigationEntry(): any {
+    return typeof performance !== "undefined" && performance.getEntriesByType
+        ? performance.getEntriesByType("navigation")[0]
+        : undefined;
+}
+
+/**
+ * Web Vitals for the RN-Web build (ADR-0004) via PerformanceObserver — each vital is one
+ * metric named after the vital (`LCP`/`FCP`/`CLS`/`INP`/`TTFB`) with `vital.rating` and
+ * attribution attributes (docs/backend-additions-ledger.md).
+ *
+ * FCP and TTFB report as soon as they're known. LCP, CLS and INP accumulate over the page
+ * lifetime and report when the page is hidden (LCP also stops at the first input), followed
+ * by a flush so they survive unload. A bfcache restore starts a fresh measurement round.
+ */
+export class WebVitalsTrackerWeb {
+    private navigationType = "navigate";
+    private reported = new Set<VitalName>();
+    private lcp?: { value: number; attributes: Record<string, any> };
+    // CLS = largest session window: shifts <1 s apart, window capped at 5 s
+    private cls = { value: 0, windowValue: 0, windowStart: 0, windowLast: 0, largestShift: 0, largestTarget: undefined as string | undefined };
+    // the 10 slowest interactions by interactionId — enough for the p98 estimate up to 500
+    // interactions — plus every id seen, for the count the percentile is taken over
+    private interactions = new Map<number, any>();
+    private interactionIds = new Set<number>();
+
+    constructor(private telemetry: Telemetry) { }
+
+    start(): Promise<void> {
+        return new Promise((resolve) => {
+            if (typeof PerformanceObserver === "undefined" || typeof window === "undefined") {
+                resolve();   // no PerformanceObserver → nothing honest to report
+                return;
+            }
+
+            this.navigationType = navigationEntry()?.type ?? "navigate";
+            this.observe("paint", (e) => this.onPaint(e));
+            this.observe("largest-contentful-paint", (e) => this.onLargestPaint(e));
+            this.observe("layout-shift", (e) => this.onLayoutShift(e));
+            this.observe("event", (e) => this.onInteraction(e), { durationThreshold: 40 });
+            this.observe("first-input", (e) => this.onInteraction(e));
+            this.reportTtfb();
+
+            const stopLcp = () => this.finalize(["LCP"]);
+            window.addEventListener("keydown", stopLcp, { once: true, capture: true });
+            window.addEventListener("click", stopLcp, { once: true, capture: true });
+
+            document.addEventListener("visibilitychange", () => {
+                if (document.visibilityState === "hidden") this.finalize(PAGE_LIFETIME);
+            });
+            window.addEventListener("pagehide", () => this.finalize(PAGE_LIFETIME));
+            window.addEventListener("pageshow", (event: any) => {
+                if (event.persisted) this.onRestore(event.timeStamp);
+            });
+
+            resolve();
+        });
+    }
+
+    private observe(type: string, onEntry: (entry: any) => void, extra?: Record<string, any>): void {
+        try {
+            const observer = new PerformanceObserver((list) => list.getEntries().forEach(onEntry));
+            observer.observe({ type, buffered: true, ...extra } as any);
+        } catch {
+            // entry type unsupported in this browser — that vital is simply not reported
+        }
+    }
+
+    private onPaint(entry: any): void {
+        if (entry.name !== "first-contentful-paint") return;
+        this.report("FCP", this.sinceActivation(entry.startTime));
+    }
+
+    private onLargestPaint(entry: any): void {
+        if (this.reported.has("LCP")) return;
+        this.lcp = {
+            value: this.sinceActivation(entry.startTime),
+            attributes: {
+                "vital.element": describeElement(entry.element),
+                "vital.resource_url": entry.url || undefined,
+            },
+        };
+    }
+
+    private onLayoutShift(entry: any): void {
+        if (entry.hadRecentInput) return;   // user-initiated shifts don't count
+        const c = this.cls;
+        if (c.windowValue && entry.startTime - c.windowLast < 1000 && entry.startTime - c.windowStart < 5000) {
+            c.windowValue += entry.value;
+        } else {
+            c.windowValue = entry.value;
+            c.windowStart = entry.startTime;
+        }
+        c.windowLast = entry.startTime;
+        c.value = Math.max(c.value, c.windowValue);
+        if (entry.value > c.largestShift) {
+            c.largestShift = entry.value;
+            c.largestTarget = describeElement(entry.sources?.[0]?.node);
+        }
+    }
+
+    private onInteraction(entry: any): void {
+        if (!entry.interactionId) return;
+        this.interactionIds.add(entry.interactionId);
+        const prev = this.interactions.get(entry.interactionId);
+        if (!prev || entry.duration > prev.duration) this.interactions.set(entry.interactionId, entry);
+        if (this.interactions.size > 10) {
+            let shortest: number | undefined;
+            for (const [id, e] of this.interactions) {
+                if (shortest === undefined || e.duration < this.interactions.get(shortest).duration) shortest = id;
+            }
+            this.interactions.delete(shortest!);
+        }
+    }
+
+    private reportTtfb(): void {
+        const nav = navigationEntry();
+        if (!nav || !nav.responseStart) return;
+        this.report("TTFB", this.sinceActivation(nav.responseStart), {
+            "vital.dns_ms": nav.domainLookupEnd - nav.domainLookupStart,
+            "vital.connect_ms": nav.connectEnd - nav.connectStart,
+            "vital.request_ms": nav.responseStart - nav.requestStart,
+        });
+    }
+
+    private finalize(names: VitalName[]): void {
+        const pending: Promise<void>[] = [];
+        for (const name of names) {
+            if (this.reported.has(name)) continue;
+            if (name === "LCP" && this.lcp) {
+                pending.push(this.report("LCP", this.lcp.value, this.lcp.attributes));
+            } else if (name === "CLS") {
+                pending.push(this.report("CLS", this.cls.value, {
+                    "vital.largest_shift_target": this.cls.largestTarget,
+                    "vital.largest_shift_value": this.cls.largestShift || undefined,
+                }));
+            } else if (name === "INP" && this.interactions.size > 0) {
+                const worst = [...this.interactions.values()].sort((a, b) => b.duration - a.duration);
+                // p98 estimate: skip one outlier per 50 interactions on the page
+                const e = worst[Math.min(worst.length - 1, Math.floor(this.interactionIds.size / 50))];
+                pending.push(this.report("INP", e.duration, {
+                    "vital.event_type": e.name,
+                    "vital.element": describeElement(e.target),
+                    "vital.input_delay_ms": e.processingStart - e.startTime,
+                    "vital.processing_ms": e.processingEnd - e.processingStart,
+                    "vital.presentation_delay_ms": e.startTime + e.duration - e.processingEnd,
+                }));
+            }
+        }
+        if (pending.length === 0) return;
+        // page may be going away — push the vitals out now rather than on the next timer
+        Promise.all(pending).then(() => this.telemetry.flush()).catch(() => { });
+    }
+
+    // bfcache restore: a new "page view" without a navigation. Reset every accumulator and
+    // report FCP/LCP as the time to the next painted frame, like a fresh load would.
+    private onRestore(restoredAt: number): void {
+        this.reported.clear();
+        this.lcp = undefined;
+        this.cls = { value: 0, windowValue: 0, windowStart: 0, windowLast: 0, largestShift: 0, largestTarget: undefined };
+        this.interactions.clear();
+        this.interactionIds.clear();
+        this.navigationType = "back-forward-cache";
+
+        requestAnimationFrame(() => requestAnimationFrame(() => {
+            const value = performance.now() - restoredAt;
+            this.report("FCP", value);
+            this.report("LCP", value);
+        }));
+    }
+
+    private sinceActivation(time: number): number {
+        return Math.max(time - (navigationEntry()?.activationStart ?? 0), 0);
+    }
+
+    private report(name: VitalName, value: number, attributes: Record<string, any> = {}): Promise<void> {
+        if (this.reported.has(name)) return Promise.resolve();
+        this.reported.add(name);
+
+        const attrs: Record<string, any> = {
+            "vital.rating": rateVital(name, value),
+            "vital.navigation_type": this.navigationType,
+        };
+        for (const [k, v] of Object.entries(attributes)) if (v !== undefined) attrs[k] = v;
+        return this.telemetry.logMetric(name, value, attrs);
+    }
+}
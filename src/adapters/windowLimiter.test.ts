@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { WindowLimiter } from "./windowLimiter";
+
+describe("WindowLimiter", () => {
+  it("admits up to max per window and reopens once the window expires", () => {
+    let t = 1_000;
+    const limiter = new WindowLimiter(2, 100, () => t);
+
+    expect([limiter.tryAcquire(), limiter.tryAcquire(), limiter.tryAcquire()]).toEqual([true, true, false]);
+    t += 99;
+    expect(limiter.tryAcquire()).toBe(false);
+    t += 1;
+    expect([limiter.tryAcquire(), limiter.tryAcquire(), limiter.tryAcquire()]).toEqual([true, true, false]);
+  });
+});
@@ -0,0 +1,25 @@
+// Fixed-window cap for high-volume PerformanceObserver collectors (resource_timing, long_task)
+// so a busy page can't flood the queue. Shared by the web collectors; each owns its own limiter.
+
+export class WindowLimiter {
+    private windowStart = -Infinity;
+    private count = 0;
+
+    constructor(
+        private max: number,
+        private windowMs: number,
+        private now: () => number = Date.now,
+    ) { }
+
+    /** true if one more item fits in the current window; opens a new window when the old one expired. */
+    tryAcquire(): boolean {
+        const t = this.now();
+        if (t - this.windowStart >= this.windowMs) {
+            this.windowStart = t;
+            this.count = 0;
+        }
+        if (this.count >= this.max) return false;
+        this.count++;
+        return true;
+    }
+}
@@ -0,0 +1,71 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { SourceMap } from "./sourceMap";
+import { symbolicateEvents } from "./symbolicate";
+
+const USAGE = `Usage: edge-telemetry-symbolicate <events.json> --map <bundle.map> [--file <bundle>] [--out <file>]
+
+  <events.json>   exported app.crash events: a telemetry_batch envelope, an array or one event
+  --map           Metro / Hermes (composed) source map for the release build
+  --file          generated file the map belongs to, e.g. index.android.bundle (default: the map's "file")
+  --out           write here instead of stdout
+
+Runs fully offline: only the two local files are read.`;
+
+interface Args {
+    input?: string;
+    map?: string;
+    file?: string;
+    out?: string;
+}
+
+function parseArgs(argv: string[]): Args {
+    const args: Args = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === "--map" || arg === "--file" || arg === "--out") {
+            const value = argv[++i];
+            if (value === undefined) throw new Error(`${arg} needs a value`);
+            args[arg.slice(2) as "map" | "file" | "out"] = value;
+        } else if (arg.startsWith("--")) {
+            throw new Error(`Unknown option ${arg}`);
+        } else if (args.input === undefined) {
+            args.input = arg;
+        } else {
+            throw new Error(`Unexpected argument ${arg}`);
+        }
+    }
+    return args;
+}
+
+async function main(argv: string[]): Promise<number> {
+    if (argv.includes("--help") || argv.includes("-h")) {
+        console.log(USAGE);
+        return 0;
+    }
+    let args: Args;
+    try {
+        args = parseArgs(argv);
+        if (!args.input || !args.map) throw new Error("an events file and --map are required");
+    } catch (err) {
+        console.error(`${(err as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    try {
+        const [events, map] = await Promise.all([
+            readFile(args.input, "utf8").then(JSON.parse),
+            readFile(args.map, "utf8").then((raw) => new SourceMap(JSON.parse(raw))),
+        ]);
+        const summary = symbolicateEvents(events, map, { file: args.file });
+        const output = JSON.stringify(events, null, 2) + "\n";
+        if (args.out) await writeFile(args.out, output);
+        else process.stdout.write(output);
+        console.error(`Symbolicated ${summary.mapped}/${summary.frames} frames in ${summary.crashes} crash event(s).`);
+        return 0;
+    } catch (err) {
+        console.error(`edge-telemetry-symbolicate: ${(err as Error).message}`);
+        return 1;
+    }
+}
+
+void main(process.argv.slice(2)).then((code) => { process.exitCode = code; });
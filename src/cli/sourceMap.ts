@@ -0,0 +1,160 @@
+// Minimal source map v3 reader for the symbolication CLI — just enough to map a generated
+// position back to source/line/column/name, plus Metro's `x_facebook_sources` function maps
+// for the enclosing function name. No dependency: the package ships no runtime deps for Node.
+
+export interface RawSourceMap {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources: Array<string | null>;
+    names?: string[];
+    mappings: string;
+    sections?: unknown;
+    // Metro: per source, [{ names, mappings }] mapping source positions to function names
+    x_facebook_sources?: Array<Array<{ names: string[]; mappings: string }> | null> | null;
+}
+
+export interface OriginalPosition {
+    source: string;
+    line: number;     // 1-based
+    column: number;   // 0-based
+    name?: string;    // enclosing function (Metro function map), else the mapped identifier
+}
+
+interface Segment {
+    column: number;
+    source?: number;
+    line?: number;
+    sourceColumn?: number;
+    name?: number;
+}
+
+interface FunctionRange {
+    line: number;
+    column: number;
+    name: string;
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUE = new Map(Array.from(BASE64, (c, i) => [c, i] as [string, number]));
+
+/** Decode one base64 VLQ segment ("AAgBC") into its signed fields. */
+export function decodeVlq(segment: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of segment) {
+        const digit = BASE64_VALUE.get(char);
+        if (digit === undefined) throw new Error(`Invalid VLQ character "${char}"`);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+}
+
+export class SourceMap {
+    readonly file?: string;
+    private lines: Segment[][] = [];
+    private functionMaps = new Map<number, FunctionRange[]>();
+
+    constructor(private raw: RawSourceMap) {
+        if (raw.sections) throw new Error("Indexed source maps (sections) are not supported");
+        if (raw.version !== 3) throw new Error(`Unsupported source map version ${raw.version}`);
+        this.file = raw.file;
+        this.decodeMappings();
+    }
+
+    /** `line` 1-based, `column` 0-based, as in the spec's generated positions. */
+    originalPositionFor(line: number, column: number): OriginalPosition | undefined {
+        const segments = this.lines[line - 1];
+        if (!segments) return undefined;
+        // greatest segment starting at or before the column
+        let found: Segment | undefined;
+        for (const segment of segments) {
+            if (segment.column > column) break;
+            found = segment;
+        }
+        if (!found || found.source === undefined) return undefined;
+
+        const sourceName = this.raw.sources[found.source];
+        if (sourceName == null) return undefined;
+        const position: OriginalPosition = {
+            source: this.raw.sourceRoot ? joinRoot(this.raw.sourceRoot, sourceName) : sourceName,
+            line: found.line! + 1,
+            column: found.sourceColumn!,
+        };
+        const name = this.functionName(found.source, position.line, position.column)
+            ?? (found.name !== undefined ? this.raw.names?.[found.name] : undefined);
+        if (name) position.name = name;
+        return position;
+    }
+
+    private decodeMappings(): void {
+        let source = 0, line = 0, sourceColumn = 0, name = 0;
+        for (const text of this.raw.mappings.split(";")) {
+            const segments: Segment[] = [];
+            let column = 0;
+            for (const part of text.split(",")) {
+                if (!part) continue;
+                const fields = decodeVlq(part);
+                column += fields[0];
+                const segment: Segment = { column };
+                if (fields.length >= 4) {
+                    source += fields[1];
+                    line += fields[2];
+                    sourceColumn += fields[3];
+                    Object.assign(segment, { source, line, sourceColumn });
+                }
+                if (fields.length >= 5) {
+                    name += fields[4];
+                    segment.name = name;
+                }
+                segments.push(segment);
+            }
+            // spec doesn't require sorted segments; lookups assume it
+            segments.sort((a, b) => a.column - b.column);
+            this.lines.push(segments);
+        }
+    }
+
+    // Metro function maps: ";"-separated groups of [columnDelta, nameDelta, lineDelta?], lines
+    // 1-based and columns 0-based in the original source. Decoded lazily per source.
+    private functionName(source: number, line: number, column: number): string | undefined {
+        const meta = this.raw.x_facebook_sources?.[source]?.[0];
+        if (!meta) return undefined;
+        let ranges = this.functionMaps.get(source);
+        if (!ranges) {
+            ranges = [];
+            let rangeLine = 1, nameIndex = 0;
+            for (const group of meta.mappings.split(";")) {
+                let rangeColumn = 0;
+                for (const part of group.split(",")) {
+                    if (!part) continue;
+                    const [columnDelta, nameDelta, lineDelta = 0] = decodeVlq(part);
+                    rangeLine += lineDelta;
+                    nameIndex += nameDelta;
+                    rangeColumn += columnDelta;
+                    ranges.push({ line: rangeLine, column: rangeColumn, name: meta.names[nameIndex] });
+                }
+            }
+            this.functionMaps.set(source, ranges);
+        }
+        let found: FunctionRange | undefined;
+        for (const range of ranges) {
+            if (range.line > line || (range.line === line && range.column > column)) break;
+            found = range;
+        }
+        return found?.name;
+    }
+}
+
+function joinRoot(root: string, source: string): string {
+    if (/^[a-z]+:|^\//i.test(source)) return source;
+    return root.endsWith("/") ? root + source : `${root}/${source}`;
+}
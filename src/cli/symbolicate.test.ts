@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { SourceMap, decodeVlq, type RawSourceMap } from "./sourceMap";
+import { symbolicateEvents, symbolicateStack } from "./symbolicate";
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function vlq(values: number[]): string {
+  return values.map((v) => {
+    let n = v < 0 ? (-v << 1) | 1 : v << 1;
+    let out = "";
+    do {
+      let digit = n & 31;
+      n >>>= 5;
+      if (n > 0) digit |= 32;
+      out += BASE64[digit];
+    } while (n > 0);
+    return out;
+  }).join("");
+}
+
+// Generated line 1:
+//   col 100 → src/screens/Cart.tsx 12:10 (identifier "total"), inside CartSummary (from 10:2)
+//   col 200 → node_modules/react/index.js 5:0 (identifier "render"), no function map
+function fixtureMap(): RawSourceMap {
+  return {
+    version: 3,
+    file: "index.android.bundle",
+    sources: ["src/screens/Cart.tsx", "node_modules/react/index.js"],
+    names: ["total", "render"],
+    mappings: [vlq([100, 0, 11, 10, 0]), vlq([100, 1, -7, -10, 1])].join(","),
+    x_facebook_sources: [
+      [{ names: ["<global>", "CartSummary"], mappings: `${vlq([0, 0, 0])};${vlq([2, 1, 9])}` }],
+      null,
+    ],
+  };
+}
+
+describe("decodeVlq", () => {
+  it("decodes signed multi-digit fields", () => {
+    expect(decodeVlq("AAgBC")).toEqual([0, 0, 16, 1]);
+    expect(decodeVlq("D")).toEqual([-1]);
+    expect(decodeVlq(vlq([1234, -567, 0]))).toEqual([1234, -567, 0]);
+  });
+
+  it("rejects characters outside base64", () => {
+    expect(() => decodeVlq("A!")).toThrow(/Invalid VLQ/);
+  });
+});
+
+describe("SourceMap.originalPositionFor", () => {
+  const map = new SourceMap(fixtureMap());
+
+  it("maps to the closest segment at or before the generated column", () => {
+    expect(map.originalPositionFor(1, 100)).toMatchObject({ source: "src/screens/Cart.tsx", line: 12, column: 10 });
+    expect(map.originalPositionFor(1, 150)).toMatchObject({ source: "src/screens/Cart.tsx", line: 12, column: 10 });
+    expect(map.originalPositionFor(1, 99)).toBeUndefined();
+    expect(map.originalPositionFor(7, 0)).toBeUndefined();
+  });
+
+  it("names the enclosing function from Metro's function map, else the mapped identifier", () => {
+    expect(map.originalPositionFor(1, 100)!.name).toBe("CartSummary");
+    expect(map.originalPositionFor(1, 200)).toEqual({
+      source: "node_modules/react/index.js", line: 5, column: 0, name: "render",
+    });
+  });
+
+  it("refuses indexed maps and other versions", () => {
+    expect(() => new SourceMap({ ...fixtureMap(), sections: [] })).toThrow(/sections/);
+    expect(() => new SourceMap({ ...fixtureMap(), version: 2 })).toThrow(/version 2/);
+  });
+});
+
+describe("symbolicateStack", () => {
+  const map = new SourceMap(fixtureMap());
+
+  it("rewrites Hermes bytecode frames (0-based offsets) and V8 frames (1-based columns)", () => {
+    const stack = [
+      "TypeError: undefined is not an object (evaluating 'e.total')",
+      "    at a (address at index.android.bundle:1:105)",
+      "    at apply (native)",
+      "    at t (https://cdn.example.com/index.android.bundle:1:201)",
+      "    at other (vendor.js:1:100)",
+    ].join("\n");
+
+    const result = symbolicateStack(stack, map);
+    expect(result.stack.split("\n")).toEqual([
+      "TypeError: undefined is not an object (evaluating 'e.total')",
+      "    at CartSummary (src/screens/Cart.tsx:12:11)",
+      "    at apply (native)",
+      "    at render (node_modules/react/index.js:5:1)",
+      "    at other (vendor.js:1:100)",
+    ]);
+    expect(result.frames[0]).toEqual({ function: "CartSummary", file: "src/screens/Cart.tsx", line: 12, column: 11, in_app: true });
+    expect(result.frames[2].in_app).toBe(false);
+    expect([result.candidates, result.mapped]).toEqual([2, 2]);
+  });
+
+  it("leaves frames it can't resolve as they were", () => {
+    const stack = "Error: x\n    at a (address at index.android.bundle:1:5)";
+    expect(symbolicateStack(stack, map)).toMatchObject({ stack, candidates: 1, mapped: 0 });
+  });
+
+  it("--file overrides which generated file the map applies to", () => {
+    const stack = "Error: x\n    at a (main.js:1:101)";
+    expect(symbolicateStack(stack, map).mapped).toBe(0);
+    expect(symbolicateStack(stack, map, { file: "main.js" }).mapped).toBe(1);
+  });
+});
+
+describe("symbolicateEvents", () => {
+  const crash = () => ({
+    type: "event",
+    eventName: "app.crash",
+    attributes: {
+      "crash.cause": "Error",
+      "crash.stacktrace": "TypeError: x\n    at a (address at index.android.bundle:1:120)",
+      "crash.frames": "[]",
+    },
+  });
+
+  it("rewrites app.crash events in a telemetry_batch envelope and leaves the rest alone", () => {
+    const batch: { type: string; events: any[] } = {
+      type: "telemetry_batch",
+      events: [crash(), { type: "event", eventName: "navigation", attributes: { "crash.stacktrace": "at x (a:1:1)" } }],
+    };
+
+    const summary = symbolicateEvents(batch, new SourceMap(fixtureMap()));
+
+    expect(summary).toEqual({ crashes: 1, frames: 1, mapped: 1 });
+    expect(batch.events[0].attributes["crash.stacktrace"]).toContain("at CartSummary (src/screens/Cart.tsx:12:11)");
+    expect(JSON.parse(batch.events[0].attributes["crash.frames"])[0].function).toBe("CartSummary");
+    expect(batch.events[1].attributes["crash.stacktrace"]).toBe("at x (a:1:1)");
+  });
+
+  it("accepts a bare array or a single event", () => {
+    const map = new SourceMap(fixtureMap());
+    expect(symbolicateEvents([crash(), crash()], map).crashes).toBe(2);
+    expect(symbolicateEvents(crash(), map).crashes).toBe(1);
+  });
+});
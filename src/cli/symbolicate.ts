@@ -0,0 +1,88 @@
+import { parseStackLine, type StackFrame } from "../adapters/stackParser";
+import type { SourceMap } from "./sourceMap";
+
+export interface SymbolicateOptions {
+    /** Generated file the map belongs to (basename); defaults to the map's `file`. */
+    file?: string;
+}
+
+export interface SymbolicateSummary {
+    crashes: number;   // app.crash events with a stacktrace
+    frames: number;    // frames in the map's file
+    mapped: number;    // of those, resolved to an original position
+}
+
+/**
+ * Rewrite one stack trace against a source map. Frames in the map's generated file become
+ * V8-style `at fn (source:line:col)` lines; everything else (header, builtins, other files)
+ * is kept verbatim. Hermes `address at` columns are 0-based bytecode offsets; every other
+ * engine reports 1-based columns.
+ */
+export function symbolicateStack(stack: string, map: SourceMap, options: SymbolicateOptions = {}) {
+    const target = baseName(options.file ?? map.file);
+    const frames: StackFrame[] = [];
+    let candidates = 0;
+    let mapped = 0;
+
+    const lines = stack.split("\n").map((text) => {
+        const frame = parseStackLine(text);
+        if (!frame) return text;
+        if (frame.line === undefined || (target && baseName(frame.file) !== target)) {
+            frames.push(frame);
+            return text;
+        }
+        candidates++;
+        const hermes = /\(address at /.test(text);
+        const column = frame.column === undefined ? 0 : hermes ? frame.column : frame.column - 1;
+        const original = map.originalPositionFor(frame.line, column);
+        if (!original) {
+            frames.push(frame);
+            return text;
+        }
+        mapped++;
+        const resolved: StackFrame = {
+            function: original.name ?? frame.function,
+            file: original.source,
+            line: original.line,
+            column: original.column + 1,
+            in_app: !/(?:^|\/)node_modules\//.test(original.source),
+        };
+        frames.push(resolved);
+        const indent = /^\s*/.exec(text)![0] || "    ";
+        return `${indent}at ${resolved.function ?? "<anonymous>"} (${resolved.file}:${resolved.line}:${resolved.column})`;
+    });
+
+    return { stack: lines.join("\n"), frames, candidates, mapped };
+}
+
+/**
+ * Symbolicate exported events in place: a `telemetry_batch` envelope, an array of events or
+ * a single event. Only `app.crash` events with a string `crash.stacktrace` are touched; their
+ * `crash.stacktrace` and `crash.frames` are replaced with the original positions.
+ */
+export function symbolicateEvents(input: unknown, map: SourceMap, options: SymbolicateOptions = {}): SymbolicateSummary {
+    const summary: SymbolicateSummary = { crashes: 0, frames: 0, mapped: 0 };
+    for (const event of eventsOf(input)) {
+        const attrs = event?.attributes;
+        if (event?.eventName !== "app.crash" || typeof attrs?.["crash.stacktrace"] !== "string") continue;
+        const result = symbolicateStack(attrs["crash.stacktrace"], map, options);
+        attrs["crash.stacktrace"] = result.stack;
+        if (result.frames.length) attrs["crash.frames"] = JSON.stringify(result.frames);
+        summary.crashes++;
+        summary.frames += result.candidates;
+        summary.mapped += result.mapped;
+    }
+    return summary;
+}
+
+function eventsOf(input: any): any[] {
+    if (Array.isArray(input)) return input;
+    if (input && Array.isArray(input.events)) return input.events;
+    return input && typeof input === "object" ? [input] : [];
+}
+
+function baseName(file: string | undefined): string | undefined {
+    if (!file) return undefined;
+    const path = file.split(/[?#]/)[0];
+    return path.slice(path.lastIndexOf("/") + 1);
+}
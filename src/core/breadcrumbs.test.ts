@@ -1,22 +1,97 @@
-import { describe, it, expect } from "vitest";
-import { BreadcrumbBuffer } from "./breadcrumbs";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { BreadcrumbBuffer, BreadcrumbStore, eventBreadcrumb, consoleBreadcrumb, customBreadcrumb, type Breadcrumb } from "./breadcrumbs";
+import { MemoryStore } from "./storage";
+
+const crumb = (name: string): Breadcrumb => ({ name, category: "event", timestamp: "2026-01-01T00:00:00.000Z" });
 
 describe("BreadcrumbBuffer (crash.breadcrumbs ring buffer)", () => {
   it("keeps at most the last 20 actions, evicting the oldest first", () => {
     const buf = new BreadcrumbBuffer(20);
-    for (let i = 0; i < 25; i++) buf.add({ name: `e${i}` });
+    for (let i = 0; i < 25; i++) buf.add(crumb(`e${i}`));
 
     const items = buf.list();
     expect(items).toHaveLength(20);
-    expect(items[0]).toEqual({ name: "e5" });    // e0..e4 evicted
-    expect(items[19]).toEqual({ name: "e24" });
+    expect(items[0].name).toBe("e5");    // e0..e4 evicted
+    expect(items[19].name).toBe("e24");
   });
 
   it("serializes to a JSON string of the retained actions", () => {
     const buf = new BreadcrumbBuffer(3);
-    buf.add({ name: "a" });
-    buf.add({ name: "b" });
+    buf.add(crumb("a"));
+    buf.add(crumb("b"));
+
+    expect(buf.toJSON()).toBe(JSON.stringify([crumb("a"), crumb("b")]));
+  });
+});
+
+describe("typed breadcrumbs", () => {
+  it("carries a small per-category payload for navigation, http and interactions", () => {
+    expect(eventBreadcrumb("navigation", {
+      "navigation.from_screen": "Cart", "navigation.to_screen": "Checkout", "navigation.method": "push",
+    })).toMatchObject({ name: "navigation", category: "navigation", data: { from_screen: "Cart", to_screen: "Checkout" } });
+
+    expect(eventBreadcrumb("http.request", {
+      "http.url": "https://api.example.com/orders?token=secret", "http.method": "POST",
+      "http.path": "/orders", "http.status_code": 502,
+    }).data).toEqual({ method: "POST", path: "/orders", status: 502 });   // no full URL
+
+    expect(eventBreadcrumb("user.interaction", {
+      "interaction.type": "tap", "interaction.target_id": "pay-button", "interaction.target_text": "Pay $42",
+    }).data).toEqual({ type: "tap", target_id: "pay-button" });
+  });
+
+  it("other events are category event with no payload", () => {
+    const b = eventBreadcrumb("custom_event", { "event.name": "promo_shown" });
+    expect(b).toEqual({ name: "custom_event", category: "event", timestamp: expect.any(String) });
+  });
+
+  it("console and custom crumbs carry a capped message; custom data keeps primitives only", () => {
+    expect(consoleBreadcrumb("warn", "x".repeat(500))).toMatchObject({ category: "console", data: { level: "warn" } });
+    expect(consoleBreadcrumb("warn", "x".repeat(500)).message).toHaveLength(200);
+
+    expect(customBreadcrumb({ message: "payment submitted", data: { amount: 42, card: { last4: "4242" }, retry: false } }))
+      .toMatchObject({ name: "custom", category: "custom", message: "payment submitted", data: { amount: 42, retry: false } });
+  });
+});
+
+describe("BreadcrumbStore (persisted trail for the next launch)", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it("writes at most once per debounce window, latest trail wins", async () => {
+    const storage = new MemoryStore();
+    const setItem = vi.spyOn(storage, "setItem");
+    const store = new BreadcrumbStore(storage, 500);
+
+    store.save(JSON.stringify([{ name: "a" }]));
+    store.save(JSON.stringify([{ name: "a" }, { name: "b" }]));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(setItem).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await store.settled();
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(await new BreadcrumbStore(storage).load()).toEqual([{ name: "a" }, { name: "b" }]);
+  });
+
+  it("clear() drops the stored trail and a write still waiting on the debounce", async () => {
+    const storage = new MemoryStore();
+    await storage.setItem("telemetry_breadcrumbs", JSON.stringify([{ name: "old" }]));
+    const store = new BreadcrumbStore(storage, 500);
+
+    store.save(JSON.stringify([{ name: "new" }]));
+    store.clear();
+    await vi.advanceTimersByTimeAsync(1000);
+    await store.settled();
+
+    expect(await storage.getItem("telemetry_breadcrumbs")).toBeNull();
+  });
 
-    expect(buf.toJSON()).toBe(JSON.stringify([{ name: "a" }, { name: "b" }]));
+  it("ignores a corrupt or non-array value", async () => {
+    const storage = new MemoryStore();
+    await storage.setItem("telemetry_breadcrumbs", "{oops");
+    expect(await new BreadcrumbStore(storage).load()).toBeUndefined();
+    await storage.setItem("telemetry_breadcrumbs", JSON.stringify({ name: "a" }));
+    expect(await new BreadcrumbStore(storage).load()).toBeUndefined();
   });
 });
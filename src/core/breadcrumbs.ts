@@ -1,18 +1,113 @@
+import { debug } from "./debug";
+import { CoalescedWriter, type KeyValueStore } from "./storage";
+
+const BREADCRUMBS_KEY = "telemetry_breadcrumbs";
+const MAX_VALUE = 200;
+
+export type BreadcrumbCategory = "navigation" | "http" | "interaction" | "console" | "lifecycle" | "event" | "custom";
+export type BreadcrumbData = Record<string, string | number | boolean>;
+
+/**
+ * One step of the crash trail. `name` is the event name (`custom` for addBreadcrumb()), so a
+ * trail still reads as the sequence of events; `data` is a small per-category payload.
+ */
+export interface Breadcrumb {
+  name: string;
+  category: BreadcrumbCategory;
+  timestamp: string;
+  message?: string;
+  data?: BreadcrumbData;
+}
+
+export interface BreadcrumbInput {
+  message: string;
+  category?: BreadcrumbCategory;   // default "custom"
+  data?: Record<string, unknown>;
+}
+
+// event → category + the few attributes that make a trail readable. Paths, never full URLs:
+// query strings carry tokens.
+const EVENT_FIELDS: Record<string, { category: BreadcrumbCategory; fields: Record<string, string> }> = {
+  "navigation": {
+    category: "navigation",
+    fields: { from_screen: "navigation.from_screen", to_screen: "navigation.to_screen" },
+  },
+  "http.request": {
+    category: "http",
+    fields: { method: "http.method", path: "http.path", status: "http.status_code" },
+  },
+  "user.interaction": {
+    category: "interaction",
+    fields: {
+      type: "interaction.type", target_id: "interaction.target_id",
+      target_label: "interaction.target_label", target_tag: "interaction.target_tag",
+    },
+  },
+  "app_lifecycle": { category: "lifecycle", fields: { state: "app_lifecycle.state" } },
+};
+
+/** The breadcrumb for a logged event, from its attributes. */
+export function eventBreadcrumb(name: string, attributes: Record<string, any>): Breadcrumb {
+  const spec = EVENT_FIELDS[name];
+  const crumb: Breadcrumb = { name, category: spec?.category ?? "event", timestamp: new Date().toISOString() };
+  if (spec) {
+    const data = cleanData(Object.fromEntries(
+      Object.entries(spec.fields).map(([key, attr]) => [key, attributes[attr]]),
+    ));
+    if (data) crumb.data = data;
+  }
+  return crumb;
+}
+
+/** console.error/warn captured as app.crash — kept in the trail as context for a later crash. */
+export function consoleBreadcrumb(level: "error" | "warn", message: unknown): Breadcrumb {
+  return {
+    name: "console",
+    category: "console",
+    timestamp: new Date().toISOString(),
+    message: String(message ?? "").slice(0, MAX_VALUE),
+    data: { level },
+  };
+}
+
+/** An app-supplied step, e.g. "payment submitted". */
+export function customBreadcrumb(input: BreadcrumbInput): Breadcrumb {
+  const crumb: Breadcrumb = {
+    name: "custom",
+    category: input.category ?? "custom",
+    timestamp: new Date().toISOString(),
+    message: String(input.message).slice(0, MAX_VALUE),
+  };
+  const data = input.data && cleanData(input.data);
+  if (data) crumb.data = data;
+  return crumb;
+}
+
+// primitives only, strings capped — a breadcrumb is context, not a payload
+function cleanData(input: Record<string, unknown>): BreadcrumbData | undefined {
+  const data: BreadcrumbData = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (typeof value === "string") data[key] = value.slice(0, MAX_VALUE);
+    else if (typeof value === "number" || typeof value === "boolean") data[key] = value;
+  }
+  return Object.keys(data).length ? data : undefined;
+}
+
 /**
  * Fixed-size ring buffer of recent actions, attached to `app.crash` as the
  * JSON-stringified `crash.breadcrumbs` (last N, oldest evicted first). See #28.
  */
 export class BreadcrumbBuffer {
-  private items: any[] = [];
+  private items: Breadcrumb[] = [];
 
   constructor(private max = 20) {}
 
-  add(item: any): void {
+  add(item: Breadcrumb): void {
     this.items.push(item);
     if (this.items.length > this.max) this.items.shift();
   }
 
-  list(): any[] {
+  list(): Breadcrumb[] {
     return [...this.items];
   }
 
@@ -20,3 +115,55 @@ export class BreadcrumbBuffer {
     return JSON.stringify(this.items);
   }
 }
+
+/**
+ * Storage mirror of the current run's trail, so a crash the process doesn't survive still
+ * has context when it is reported on the next launch. Writes are debounced — at most one per
+ * `debounceMs`, the latest trail wins — so a chatty app doesn't write on every event; the
+ * cost is that the last `debounceMs` of actions before a hard kill may be missing.
+ */
+export class BreadcrumbStore {
+  private writer: CoalescedWriter;
+  private timer?: ReturnType<typeof setTimeout>;
+  private latest?: string;
+
+  constructor(private storage: KeyValueStore, private debounceMs = 1000) {
+    this.writer = new CoalescedWriter(storage, BREADCRUMBS_KEY);
+  }
+
+  /** The trail the previous run left behind, oldest first. */
+  async load(): Promise<any[] | undefined> {
+    try {
+      const raw = await this.storage.getItem(BREADCRUMBS_KEY);
+      const items = raw ? JSON.parse(raw) : undefined;
+      return Array.isArray(items) ? items : undefined;
+    } catch (err) {
+      debug.warn("BreadcrumbStore: failed to read persisted breadcrumbs", err);
+      return undefined;
+    }
+  }
+
+  save(trail: string): void {
+    this.latest = trail;
+    if (this.timer === undefined) this.timer = setTimeout(() => this.write(), this.debounceMs);
+  }
+
+  /** Drop the persisted trail (clean exit) and any write still waiting on the debounce. */
+  clear(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.latest = undefined;
+    this.writer.write(null);
+  }
+
+  /** Resolves once every queued write has landed; a debounced write is not forced. */
+  settled(): Promise<void> {
+    return this.writer.settled();
+  }
+
+  private write(): void {
+    this.timer = undefined;
+    if (this.latest !== undefined) this.writer.write(this.latest);
+    this.latest = undefined;
+  }
+}
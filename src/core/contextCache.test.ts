@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from "vitest";
+import { ContextCache } from "./contextCache";
+
+function handlers() {
+  const device = {
+    start: vi.fn(async () => undefined),
+    collect: vi.fn(async () => ({ app: { name: "app", version: "1.0" }, device: { id: "d1", platform: "ios" } })),
+  };
+  const network = {
+    start: vi.fn(async () => ({})),
+    collect: vi.fn(async () => ({ type: "wifi", isConnected: true })),
+  };
+  return { device, network };
+}
+
+describe("ContextCache", () => {
+  it("collects device info once and serves the snapshot afterwards", async () => {
+    const { device, network } = handlers();
+    const cache = new ContextCache(device as any, network as any);
+
+    await cache.deviceInfo();
+    await cache.deviceInfo();
+    await Promise.all([cache.deviceInfo(), cache.deviceInfo()]);
+
+    expect(device.collect).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-collects network info only after invalidateNetwork()", async () => {
+    const { device, network } = handlers();
+    const cache = new ContextCache(device as any, network as any);
+
+    await cache.networkInfo();
+    await cache.networkInfo();
+    expect(network.collect).toHaveBeenCalledTimes(1);
+
+    network.collect.mockResolvedValueOnce({ type: "cellular", isConnected: true });
+    cache.invalidateNetwork();
+    expect(await cache.networkInfo()).toEqual({ type: "cellular", isConnected: true });
+    expect(await cache.networkInfo()).toEqual({ type: "cellular", isConnected: true });
+    expect(network.collect).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache a failed collect() — yields {} and retries on the next call", async () => {
+    const { device, network } = handlers();
+    device.collect.mockRejectedValueOnce(new Error("bridge"));
+    const cache = new ContextCache(device as any, network as any);
+
+    expect(await cache.deviceInfo()).toEqual({});
+    expect((await cache.deviceInfo() as any).device.id).toBe("d1");
+    expect(device.collect).toHaveBeenCalledTimes(2);
+  });
+
+  it("swapping a handler drops its snapshot", async () => {
+    const { device, network } = handlers();
+    const cache = new ContextCache(device as any, network as any);
+    await cache.deviceInfo();
+
+    const next = handlers().device;
+    cache.setDeviceHandler(next as any);
+    await cache.deviceInfo();
+
+    expect(next.collect).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,63 @@
+import { debug } from "./debug";
+import type { DeviceInfoHandler, NetworkInfoHandler } from "./telemetry";
+
+/**
+ * Memoized device/network snapshots behind the Context block. Device/app fields are static
+ * for the process, so they're collected once; network fields are re-collected only after
+ * `invalidateNetwork()` — driven by NetworkChangeEmitter on a real connectivity transition.
+ * Keeps log()/logMetric() from making a dozen native bridge calls + a NetInfo.fetch() per event.
+ *
+ * A failed collect() yields `{}` for that event and is not cached, so the next event retries.
+ */
+export class ContextCache {
+    // undefined result = collect() failed; the memo is dropped so the next event retries
+    private device?: Promise<Record<string, any> | undefined>;
+    private network?: Promise<Record<string, any> | undefined>;
+
+    constructor(
+        private deviceHandler: DeviceInfoHandler,
+        private networkHandler: NetworkInfoHandler,
+    ) {}
+
+    setDeviceHandler(handler: DeviceInfoHandler): void {
+        this.deviceHandler = handler;
+        this.device = undefined;
+    }
+
+    setNetworkHandler(handler: NetworkInfoHandler): void {
+        this.networkHandler = handler;
+        this.network = undefined;
+    }
+
+    /** Drop the network snapshot; the next event re-collects it. */
+    invalidateNetwork(): void {
+        this.network = undefined;
+    }
+
+    async deviceInfo(): Promise<Record<string, any>> {
+        if (!this.device) this.device = this.snapshot("device", () => this.deviceHandler.collect());
+        const pending = this.device;
+        const info = await pending;
+        if (info) return info;
+        if (this.device === pending) this.device = undefined;
+        return {};
+    }
+
+    async networkInfo(): Promise<Record<string, any>> {
+        if (!this.network) this.network = this.snapshot("network", () => this.networkHandler.collect());
+        const pending = this.network;
+        const info = await pending;
+        if (info) return info;
+        if (this.network === pending) this.network = undefined;
+        return {};
+    }
+
+    private async snapshot(kind: string, collect: () => Promise<any>): Promise<Record<string, any> | undefined> {
+        try {
+            return (await collect()) || {};
+        } catch (err) {
+            debug.warn(`Telemetry: failed to fetch ${kind} info`, err);
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { IdentityStore } from "./identity";
+import { MemoryStore } from "./storage";
+
+describe("IdentityStore (persisted anonymous user.id)", () => {
+  it("mints a contract-format user.id once and persists it", async () => {
+    const storage = new MemoryStore();
+    const id = await new IdentityStore(storage).loadUserId();
+
+    expect(id).toMatch(/^user_\d+_[0-9a-f]{16}$/);
+    expect(await storage.getItem("telemetry_user_id")).toBe(id);
+  });
+
+  it("reloads the same user.id on the next launch (new store instance, same storage)", async () => {
+    const storage = new MemoryStore();
+    const first = await new IdentityStore(storage).loadUserId();
+    const second = await new IdentityStore(storage).loadUserId();
+
+    expect(second).toBe(first);
+  });
+
+  it("resetUserId() mints and persists a different id", async () => {
+    const storage = new MemoryStore();
+    const store = new IdentityStore(storage);
+    const before = await store.loadUserId();
+    const after = await store.resetUserId();
+
+    expect(after).not.toBe(before);
+    expect(await store.loadUserId()).toBe(after);
+    expect(await new IdentityStore(storage).loadUserId()).toBe(after);
+  });
+
+  it("falls back to an in-memory id when storage throws", async () => {
+    const broken = {
+      getItem: async () => { throw new Error("disk"); },
+      setItem: async () => { throw new Error("disk"); },
+      removeItem: async () => undefined,
+    };
+    const store = new IdentityStore(broken);
+
+    const id = await store.loadUserId();
+    expect(id).toMatch(/^user_\d+_[0-9a-f]{16}$/);
+    expect(await store.loadUserId()).toBe(id);   // stable for the run
+  });
+});
+
+describe("IdentityStore (persisted device.id)", () => {
+  it("mints device_{ms}_{16hex}_{os} once and reloads it", async () => {
+    const storage = new MemoryStore();
+    const id = await new IdentityStore(storage).loadDeviceId("android");
+
+    expect(id).toMatch(/^(session|device|user)_\d+_[0-9a-f]{16}(_(ios|android))?$/);
+    expect(id.endsWith("_android")).toBe(true);
+    expect(await new IdentityStore(storage).loadDeviceId("android")).toBe(id);
+  });
+
+  it("omits the suffix when no OS is given (web build)", async () => {
+    const id = await new IdentityStore(new MemoryStore()).loadDeviceId();
+    expect(id).toMatch(/^device_\d+_[0-9a-f]{16}$/);
+  });
+
+  it("is untouched by resetUserId()", async () => {
+    const store = new IdentityStore(new MemoryStore());
+    const device = await store.loadDeviceId("ios");
+    await store.resetUserId();
+    expect(await store.loadDeviceId("ios")).toBe(device);
+  });
+});
@@ -0,0 +1,73 @@
+import { debug } from "./debug";
+import { randomHex } from "./utils/uuid";
+import type { KeyValueStore } from "./storage";
+
+const USER_ID_KEY = "telemetry_user_id";
+const DEVICE_ID_KEY = "telemetry_device_id";
+
+/** v3 wire contract: `user_{ms}_{16hex}`, no OS suffix. */
+export function generateUserId(): string {
+    return `user_${Date.now()}_${randomHex(16)}`;
+}
+
+/** v3 wire contract: `device_{ms}_{16hex}_{os}`; the web build passes no os (no suffix). */
+export function generateDeviceId(os?: string): string {
+    const base = `device_${Date.now()}_${randomHex(16)}`;
+    return os ? `${base}_${os}` : base;
+}
+
+/**
+ * SDK-owned anonymous identity, persisted so one install keeps one `user.id` and one
+ * `device.id` across cold starts and page reloads. Minted once on first load; only
+ * `resetUser()` replaces the user id — identify() never touches it (#31). The device id is
+ * never reset. Share one instance between the core and the device adapter so a first launch
+ * can't mint two ids.
+ *
+ * Storage failures degrade to an in-memory id for this run rather than blocking telemetry.
+ */
+export class IdentityStore {
+    private userId?: Promise<string>;
+    private deviceId?: Promise<string>;
+
+    constructor(private storage: KeyValueStore) {}
+
+    /** The persisted user.id, minting and saving one on first use. Memoized per instance. */
+    loadUserId(): Promise<string> {
+        if (!this.userId) this.userId = this.loadOrMint(USER_ID_KEY, generateUserId);
+        return this.userId;
+    }
+
+    /** The persisted device.id for this install, minting `device_{ms}_{16hex}_{os}` on first use. */
+    loadDeviceId(os?: string): Promise<string> {
+        if (!this.deviceId) this.deviceId = this.loadOrMint(DEVICE_ID_KEY, () => generateDeviceId(os));
+        return this.deviceId;
+    }
+
+    /** Logout: mint and persist a fresh anonymous user.id. */
+    async resetUserId(): Promise<string> {
+        const id = generateUserId();
+        this.userId = Promise.resolve(id);
+        await this.save(USER_ID_KEY, id);
+        return id;
+    }
+
+    private async loadOrMint(key: string, mint: () => string): Promise<string> {
+        try {
+            const stored = await this.storage.getItem(key);
+            if (stored) return stored;
+        } catch (err) {
+            debug.warn(`IdentityStore: failed to read ${key}`, err);
+        }
+        const id = mint();
+        await this.save(key, id);
+        return id;
+    }
+
+    private async save(key: string, id: string): Promise<void> {
+        try {
+            await this.storage.setItem(key, id);
+        } catch (err) {
+            debug.warn(`IdentityStore: failed to persist ${key}`, err);
+        }
+    }
+}
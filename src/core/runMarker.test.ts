@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { RunMarkerStore } from "./runMarker";
+import { MemoryStore } from "./storage";
+
+describe("RunMarkerStore", () => {
+  it("round-trips the marker and clear() removes it", async () => {
+    const storage = new MemoryStore();
+    const store = new RunMarkerStore(storage);
+
+    store.save({ sessionId: "session_1_0123456789abcdef_ios", startedAt: 1, screen: "Home" });
+    await store.settled();
+    expect(await new RunMarkerStore(storage).load()).toEqual({
+      sessionId: "session_1_0123456789abcdef_ios", startedAt: 1, screen: "Home",
+    });
+
+    store.clear();
+    await store.settled();
+    expect(await storage.getItem("telemetry_run_marker")).toBeNull();
+    expect(await store.load()).toBeUndefined();
+  });
+
+  it("a clear queued behind a save wins", async () => {
+    const storage = new MemoryStore();
+    const store = new RunMarkerStore(storage);
+
+    store.save({ sessionId: "a", startedAt: 1 });
+    store.save({ sessionId: "b", startedAt: 2 });
+    store.clear();
+    await store.settled();
+
+    expect(await store.load()).toBeUndefined();
+  });
+
+  it("ignores a corrupt marker", async () => {
+    const storage = new MemoryStore();
+    await storage.setItem("telemetry_run_marker", "{oops");
+    expect(await new RunMarkerStore(storage).load()).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { debug } from "./debug";
+import { CoalescedWriter, type KeyValueStore } from "./storage";
+
+const RUN_MARKER_KEY = "telemetry_run_marker";
+
+/** What the next launch needs to report a run that never exited cleanly. */
+export interface RunMarker {
+    sessionId: string;
+    startedAt: number;          // ms epoch the run (or foreground span) began
+    screen?: string;            // last-known screen
+    memoryPressure?: string;    // last memory_usage pressure level — "high" → OOMKill
+}
+
+/**
+ * Run marker for unclean-exit detection: set while the app runs in the foreground, cleared
+ * on a clean background or shutdown. A fatal native crash or OS kill leaves it behind, and
+ * the next launch reports it as `app.crash` (NativeCrash / OOMKill). Writes are coalesced
+ * and fire-and-forget like session checkpoints, and skipped when nothing changed — the trail
+ * itself lives in BreadcrumbStore.
+ */
+export class RunMarkerStore {
+    private writer: CoalescedWriter;
+    private last?: string;
+
+    constructor(private storage: KeyValueStore) {
+        this.writer = new CoalescedWriter(storage, RUN_MARKER_KEY);
+    }
+
+    async load(): Promise<RunMarker | undefined> {
+        try {
+            const raw = await this.storage.getItem(RUN_MARKER_KEY);
+            const marker = raw ? JSON.parse(raw) : undefined;
+            return marker && typeof marker.sessionId === "string" ? marker : undefined;
+        } catch (err) {
+            debug.warn("RunMarkerStore: failed to read the run marker", err);
+            return undefined;
+        }
+    }
+
+    save(marker: RunMarker): void {
+        const json = JSON.stringify(marker);
+        if (json === this.last) return;
+        this.last = json;
+        this.writer.write(json);
+    }
+
+    clear(): void {
+        this.last = undefined;
+        this.writer.write(null);
+    }
+
+    /** Resolves once every queued write has landed. */
+    settled(): Promise<void> {
+        return this.writer.settled();
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from "vitest";
+import { SessionStore, type SessionState } from "./session";
+import { MemoryStore } from "./storage";
+
+const state = (over: Partial<SessionState> = {}): SessionState => ({
+  id: "session_1_0123456789abcdef",
+  startTime: 1,
+  sequence: 0,
+  eventCount: 0,
+  errorCount: 0,
+  finalized: false,
+  ...over,
+});
+
+describe("SessionStore", () => {
+  it("round-trips the last saved state", async () => {
+    const storage = new MemoryStore();
+    const store = new SessionStore(storage);
+
+    store.save(state({ eventCount: 3 }));
+    await store.settled();
+
+    expect(await new SessionStore(storage).load()).toEqual(state({ eventCount: 3 }));
+  });
+
+  it("coalesces a burst of saves into at most two writes, keeping the latest", async () => {
+    const storage = new MemoryStore();
+    const setItem = vi.spyOn(storage, "setItem");
+    const store = new SessionStore(storage);
+
+    for (let i = 1; i <= 10; i++) store.save(state({ eventCount: i }));
+    await store.settled();
+
+    expect(setItem.mock.calls.length).toBeLessThanOrEqual(2);
+    expect((await store.load())!.eventCount).toBe(10);
+  });
+
+  it("returns undefined for missing or corrupt state", async () => {
+    const storage = new MemoryStore();
+    expect(await new SessionStore(storage).load()).toBeUndefined();
+
+    await storage.setItem("telemetry_session", "{not json");
+    expect(await new SessionStore(storage).load()).toBeUndefined();
+  });
+});
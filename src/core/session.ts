@@ -0,0 +1,49 @@
+import { debug } from "./debug";
+import { CoalescedWriter, type KeyValueStore } from "./storage";
+
+const SESSION_KEY = "telemetry_session";
+
+/** The persisted slice of the session lifecycle (#29) — enough to resume after a relaunch. */
+export interface SessionState {
+    id: string;
+    startTime: number;       // ms epoch; shipped as the ISO session.start_time
+    sequence: number;        // acknowledged batches so far
+    eventCount: number;      // journey summary
+    errorCount: number;      // sdk.error_count
+    lastActivity?: number;   // drives the 30-min idle rule, including across restarts
+    finalized: boolean;      // session.finalized already sent — never resume it
+}
+
+/**
+ * Checkpoints the current session so a cold start / page reload inside the idle window
+ * resumes it instead of starting a new one. Writes are fire-and-forget and coalesced:
+ * while one write is in flight only the latest state is kept, so a burst of events costs
+ * at most two storage writes.
+ */
+export class SessionStore {
+    private writer: CoalescedWriter;
+
+    constructor(private storage: KeyValueStore) {
+        this.writer = new CoalescedWriter(storage, SESSION_KEY);
+    }
+
+    async load(): Promise<SessionState | undefined> {
+        try {
+            const raw = await this.storage.getItem(SESSION_KEY);
+            const state = raw ? JSON.parse(raw) : undefined;
+            return state && typeof state.id === "string" ? state : undefined;
+        } catch (err) {
+            debug.warn("SessionStore: failed to read the persisted session", err);
+            return undefined;
+        }
+    }
+
+    save(state: SessionState): void {
+        this.writer.write(JSON.stringify(state));
+    }
+
+    /** Resolves once every queued checkpoint has been written. */
+    settled(): Promise<void> {
+        return this.writer.settled();
+    }
+}
@@ -0,0 +1,67 @@
+import { debug } from "./debug";
+
+/**
+ * Minimal async key-value store the core persists SDK state through (identity, session).
+ * Shaped like AsyncStorage so the native adapter is a thin pass-through; the web adapter
+ * wraps localStorage. The core never imports a platform store directly.
+ */
+export interface KeyValueStore {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+}
+
+/** Process-lifetime fallback when no platform store is injected (tests, storage-less runtimes). */
+export class MemoryStore implements KeyValueStore {
+    private items = new Map<string, string>();
+
+    async getItem(key: string): Promise<string | null> {
+        return this.items.get(key) ?? null;
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        this.items.set(key, value);
+    }
+
+    async removeItem(key: string): Promise<void> {
+        this.items.delete(key);
+    }
+}
+
+/**
+ * Fire-and-forget writes to one key, coalesced: while one write is in flight only the latest
+ * value is kept, so a burst of updates costs at most two storage writes. `null` removes the
+ * key. Failures are logged and dropped — persisted SDK state is best-effort.
+ */
+export class CoalescedWriter {
+    private pending?: string | null;
+    private hasPending = false;
+    private inFlight?: Promise<void>;
+
+    constructor(private storage: KeyValueStore, private key: string) {}
+
+    write(value: string | null): void {
+        this.pending = value;
+        this.hasPending = true;
+        if (!this.inFlight) this.inFlight = this.drain();
+    }
+
+    /** Resolves once every queued write has landed. */
+    settled(): Promise<void> {
+        return this.inFlight ?? Promise.resolve();
+    }
+
+    private async drain(): Promise<void> {
+        while (this.hasPending) {
+            const value = this.pending;
+            this.hasPending = false;
+            try {
+                if (value === null) await this.storage.removeItem(this.key);
+                else await this.storage.setItem(this.key, value!);
+            } catch (err) {
+                debug.warn(`Telemetry: failed to persist ${this.key}`, err);
+            }
+        }
+        this.inFlight = undefined;
+    }
+}
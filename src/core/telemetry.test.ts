@@ -1,6 +1,8 @@
-import { describe, it, expect, vi } from "vitest";
-import { Telemetry, type TelemetryEvent } from "./telemetry";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Telemetry, type TelemetryEvent, type OpenSource } from "./telemetry";
 import { ScreenTimingTracker } from "../adapters/screenTiming";
+import { MemoryStore } from "./storage";
+import { buildCrashAttributes } from "../adapters/crashCapture";
 
 const tick = () => new Promise((r) => setTimeout(r, 0));
 
@@ -91,10 +93,73 @@ describe("log()", () => {
     expect(attrs["foo"]).toBe("bar");
 
     // collect() is the getter used by log(); start() must NOT be triggered by logging
+    // (the network handler is started once, by the constructor, for its change listener)
     expect(device.collect).toHaveBeenCalled();
     expect(network.collect).toHaveBeenCalled();
     expect(device.start).not.toHaveBeenCalled();
-    expect(network.start).not.toHaveBeenCalled();
+    expect(network.start).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("cached Context block", () => {
+  it("collects device/network once across many events and metrics", async () => {
+    const device = deviceHandler();
+    const network = networkHandler();
+    const t = new Telemetry({
+      batchSize: 50, flushIntervalMs: 0,
+      deviceInfoHandler: device as any, networkInfoHandler: network as any,
+    });
+
+    for (let i = 0; i < 5; i++) await t.log("custom_event", { i });
+    await t.logMetric("memory_usage", 10);
+
+    expect(device.collect).toHaveBeenCalledTimes(1);
+    expect(network.collect).toHaveBeenCalledTimes(1);
+    expect(t.getQueue()).toHaveLength(6);
+  });
+
+  it("refreshes only network.* after a connectivity transition", async () => {
+    const device = deviceHandler();
+    const network = networkHandler();
+    const t = new Telemetry({
+      batchSize: 50, flushIntervalMs: 0,
+      deviceInfoHandler: device as any, networkInfoHandler: network as any,
+    });
+
+    await t.log("custom_event");
+    network.collect.mockResolvedValue({ type: "cellular", isConnected: true });
+    t.refreshNetworkContext();
+    await t.log("custom_event");
+    await t.log("custom_event");
+
+    const queue = t.getQueue();
+    expect(queue[0].attributes!["network.type"]).toBe("wifi");
+    expect(queue[1].attributes!["network.type"]).toBe("cellular");
+    expect(network.collect).toHaveBeenCalledTimes(2);
+    expect(device.collect).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts a configured network handler once, so its transitions refresh the snapshot", async () => {
+    const network = networkHandler();
+    const t = new Telemetry({ flushIntervalMs: 0, networkInfoHandler: network as any });
+
+    t.getNetworkInfo(networkHandler() as any);   // host call after construction: no second listener
+
+    expect(network.start).toHaveBeenCalledTimes(1);
+    expect(network.start).toHaveBeenCalledWith(t);
+  });
+
+  it("swaps in a handler passed after construction for the next event's network.*", async () => {
+    const t = new Telemetry({ batchSize: 50, flushIntervalMs: 0, networkInfoHandler: networkHandler() as any });
+    await t.log("custom_event");
+
+    const later = networkHandler();
+    later.collect.mockResolvedValue({ type: "cellular", isConnected: true });
+    t.getNetworkInfo(later as any);
+    await t.log("custom_event");
+
+    expect(t.getQueue()[1].attributes!["network.type"]).toBe("cellular");
+    expect(later.start).not.toHaveBeenCalled();
   });
 });
 
@@ -294,6 +359,95 @@ describe("screen tracking", () => {
     expect(typeof (durationCall[1] as any)["screen.duration_ms"]).toBe("number");
     expect(typeof (durationCall[1] as any)["screen.exit_method"]).toBe("string");
   });
+
+  it("automatic timing: route changes end the previous screen; background time doesn't count", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date(0));
+      const t = new Telemetry({ flushIntervalMs: 0 });
+      const logSpy = vi.spyOn(t, "log").mockResolvedValue(undefined);
+      const durations = () => logSpy.mock.calls
+        .filter((c) => c[0] === "screen.duration")
+        .map((c) => [c[1]!["screen.name"], c[1]!["screen.duration_ms"], c[1]!["screen.exit_method"]]);
+
+      t.screens.enterScreen("Home");
+      expect(t.currentScreen).toBe("Home");
+      vi.advanceTimersByTime(3000);
+      t.screens.enterScreen("Cart");
+      vi.advanceTimersByTime(1000);
+      await t.screens.suspend("background");
+      vi.advanceTimersByTime(60_000);   // backgrounded
+      t.screens.resume();
+      vi.advanceTimersByTime(2000);
+      t.screens.enterScreen("Checkout");
+
+      expect(durations()).toEqual([
+        ["Home", 3000, "navigation"],
+        ["Cart", 1000, "background"],
+        ["Cart", 2000, "navigation"],
+      ]);
+      // entering the screen itself emits no navigation: the adapter's route change does that
+      expect(logSpy.mock.calls.map((c) => c[0])).not.toContain("navigation");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("TTID / TTFD: ttid / ttfd metrics measured from the route change, once per visit, as each mark lands", () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date(0));
+      const t = new Telemetry({ flushIntervalMs: 0 });
+      const logSpy = vi.spyOn(t, "log").mockResolvedValue(undefined);
+      const metricSpy = vi.spyOn(t, "logMetric").mockResolvedValue(undefined);
+      const durations = () => logSpy.mock.calls.filter((c) => c[0] === "screen.duration").map((c) => c[1]);
+
+      t.screens.enterScreen("Cart");
+      t.screens.markDisplayed("Cart", "initial", 120);
+      expect(metricSpy.mock.calls).toEqual([["ttid", 120, { "screen.name": "Cart", "metric.unit": "ms" }]]);   // before the visit ends
+      t.screens.markDisplayed("Cart", "initial", 300);   // re-layout: ignored
+      t.screens.markDisplayed("Home", "full", 400);      // not the entered screen
+      t.screens.markDisplayed("Cart", "full", 850);
+      t.screens.markDisplayed("Cart", "full", 900);
+
+      // content ready before the first layout records both at once; a new visit times afresh
+      vi.setSystemTime(new Date(1000));
+      t.screens.enterScreen("Checkout");
+      t.screens.markDisplayed("Checkout", "full", 1200);
+      vi.setSystemTime(new Date(2000));
+      t.screens.enterScreen("Done");
+      t.screens.enterScreen("Cart");
+
+      expect(metricSpy.mock.calls.map(([name, value, attrs]) => [name, attrs!["screen.name"], value])).toEqual([
+        ["ttid", "Cart", 120],
+        ["ttfd", "Cart", 850],
+        ["ttid", "Checkout", 200],
+        ["ttfd", "Checkout", 200],
+      ]);
+      // dwell rows carry no render timing
+      expect(durations()).toEqual([
+        { "screen.name": "Cart", "screen.duration_ms": 1000, "screen.exit_method": "navigation" },
+        { "screen.name": "Checkout", "screen.duration_ms": 1000, "screen.exit_method": "navigation" },
+        { "screen.name": "Done", "screen.duration_ms": 0, "screen.exit_method": "navigation" },
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("drops display marks that land after a background", async () => {
+    const t = new Telemetry({ flushIntervalMs: 0 });
+    vi.spyOn(t, "log").mockResolvedValue(undefined);
+    const metricSpy = vi.spyOn(t, "logMetric").mockResolvedValue(undefined);
+
+    t.screens.enterScreen("Cart");
+    t.screens.markDisplayed("Cart", "initial");
+    await t.screens.suspend("background");
+    t.screens.resume();
+    t.screens.markDisplayed("Cart", "full");
+
+    expect(metricSpy.mock.calls.map((c) => c[0])).toEqual(["ttid"]);
+  });
 });
 
 describe("recordMetric", () => {
@@ -405,6 +559,87 @@ describe("v3 wire contract — crash.breadcrumbs", () => {
     const trail = JSON.parse(crash.attributes!["crash.breadcrumbs"]);
     expect(trail).toHaveLength(20);
   });
+
+  it("typed crumbs: per-category payload, addBreadcrumb() steps, console output, configurable size", async () => {
+    const sent: TelemetryEvent[] = [];
+    const t = new Telemetry({
+      sender: captureSender(sent), batchSize: 50, flushIntervalMs: 0, maxBreadcrumbs: 4,
+      deviceInfoHandler: deviceHandler() as any, networkInfoHandler: networkHandler() as any,
+    });
+
+    await t.log("custom_event", { i: 0 });   // evicted: the trail holds 4
+    await t.log("navigation", { "navigation.from_screen": "Cart", "navigation.to_screen": "Checkout" });
+    await t.log("http.request", { "http.method": "POST", "http.path": "/orders", "http.status_code": 502 });
+    t.addBreadcrumb({ message: "payment submitted", data: { amount: 42 } });
+    await t.log("app.crash", { "crash.cause": "ConsoleWarn", "crash.message": "retrying" });
+    await t.log("app.crash", { "crash.cause": "Error", "crash.message": "boom" });
+    await t.flush();
+
+    const crash = sent.filter((e) => e.eventName === "app.crash")[1];
+    const trail = JSON.parse(crash.attributes!["crash.breadcrumbs"]);
+    expect(trail.map((b: any) => [b.category, b.data ?? b.message])).toEqual([
+      ["navigation", { from_screen: "Cart", to_screen: "Checkout" }],
+      ["http", { method: "POST", path: "/orders", status: 502 }],
+      ["custom", { amount: 42 }],
+      ["console", { level: "warn" }],
+    ]);
+    expect(trail[2]).toMatchObject({ name: "custom", message: "payment submitted" });
+    expect(trail[3].message).toBe("retrying");
+    // addBreadcrumb() is trail-only: nothing is queued for it
+    expect(sent.map((e) => e.eventName)).not.toContain("custom");
+  });
+});
+
+describe("crash grouping — crash.fingerprint / crash.occurrence", () => {
+  function captureSender(sent: TelemetryEvent[]) {
+    return { send: vi.fn(async (e: TelemetryEvent[]) => { sent.push(...e); }) };
+  }
+  const crash = (message: string) => buildCrashAttributes("Error", {
+    message, stacktrace: "TypeError: x\n    at loadOrder (index.android.bundle:1:2040)",
+  });
+
+  it("sends the first occurrence in full and collapses repeats to a count", async () => {
+    const sent: TelemetryEvent[] = [];
+    const t = new Telemetry({
+      sender: captureSender(sent), batchSize: 50, flushIntervalMs: 0,
+      deviceInfoHandler: deviceHandler() as any, networkInfoHandler: networkHandler() as any,
+    });
+
+    await t.log("navigation", { "navigation.to_screen": "Orders" });
+    await t.log("app.crash", crash("Order 4411 not found"));
+    await t.log("app.crash", crash("Order 4412 not found"));
+    await t.log("app.crash", crash("Cart is empty"));
+    await t.flush();
+
+    const [first, repeat, other] = sent.filter((e) => e.eventName === "app.crash").map((e) => e.attributes!);
+    expect(repeat["crash.fingerprint"]).toBe(first["crash.fingerprint"]);
+    expect(other["crash.fingerprint"]).not.toBe(first["crash.fingerprint"]);
+    expect([first, repeat, other].map((a) => a["crash.occurrence"])).toEqual([1, 2, 1]);
+
+    expect(first).toHaveProperty("crash.breadcrumbs");
+    expect(first).toHaveProperty("crash.frames");
+    expect(repeat).not.toHaveProperty("crash.breadcrumbs");
+    expect(repeat).not.toHaveProperty("crash.stacktrace");
+    expect(repeat).not.toHaveProperty("crash.frames");
+    expect(repeat["crash.message"]).toBe("Order 4412 not found");
+  });
+
+  it("starts counting again in a new session", async () => {
+    const sent: TelemetryEvent[] = [];
+    const t = new Telemetry({
+      sender: captureSender(sent), batchSize: 50, flushIntervalMs: 0,
+      deviceInfoHandler: deviceHandler() as any, networkInfoHandler: networkHandler() as any,
+    });
+
+    await t.log("app.crash", crash("boom"));
+    await t.rotateSession();
+    await t.log("app.crash", crash("boom"));
+    await t.flush();
+
+    const crashes = sent.filter((e) => e.eventName === "app.crash").map((e) => e.attributes!);
+    expect(crashes.map((a) => a["crash.occurrence"])).toEqual([1, 1]);
+    expect(crashes[1]).toHaveProperty("crash.breadcrumbs");
+  });
 });
 
 describe("v3 session lifecycle — started / finalized", () => {
@@ -425,6 +660,80 @@ describe("v3 session lifecycle — started / finalized", () => {
     expect(sent.map((e) => e.eventName)).toContain("session.started");
   });
 
+  it("sessions carry app.open_source from the deep-link adapter once known, except after idle rotation", async () => {
+    const t = new Telemetry({ batchSize: 50, flushIntervalMs: 0 });
+    const links = { start: async () => undefined, openSource: undefined as OpenSource | undefined, takePending: () => undefined };
+    t.trackDeepLinks(links);
+    const sourceOf = () => t.getQueue().map((e) => [e.eventName, e.attributes!["app.open_source"]]);
+
+    // launch: session.started goes out at once; the initial URL settles afterwards
+    await t.startSession();
+    links.openSource = "launcher";
+    t.settleOpenSource();
+    await t.log("custom_event");
+
+    links.openSource = "deep_link";
+    await t.newSession();    // foreground via a link: known up front
+    await t.rotateSession(); // idle rotation is not an open
+    await t.log("custom_event");
+
+    expect(sourceOf().filter(([name]) => name !== "session.finalized")).toEqual([
+      ["session.started", undefined],
+      ["custom_event", "launcher"],
+      ["session.started", "deep_link"],
+      ["session.started", undefined],
+      ["custom_event", undefined],
+    ]);
+  });
+
+  it("the launch session.started waits briefly for the open source; events logged meanwhile follow it", async () => {
+    vi.useFakeTimers();
+    try {
+      const t = new Telemetry({ batchSize: 50, flushIntervalMs: 0 });
+      const links = { start: async () => undefined, openSource: undefined as OpenSource | undefined, takePending: () => undefined };
+      t.trackDeepLinks(links);
+
+      const started = t.resumeOrStartSession(1000);
+      const early = t.log("custom_event");
+      await vi.advanceTimersByTimeAsync(200);
+      expect(t.getQueue()).toEqual([]);
+      links.openSource = "deep_link";   // Linking's initial URL settled
+      t.settleOpenSource();
+      await started;
+      await early;
+
+      expect(t.getQueue().map((e) => [e.eventName, e.attributes!["app.open_source"]])).toEqual([
+        ["session.started", "deep_link"],
+        ["custom_event", "deep_link"],
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("the launch wait is bounded: session.started goes out without a source that never settles", async () => {
+    vi.useFakeTimers();
+    try {
+      const t = new Telemetry({ batchSize: 50, flushIntervalMs: 0 });
+      const links = { start: async () => undefined, openSource: undefined as OpenSource | undefined, takePending: () => undefined };
+      t.trackDeepLinks(links);
+
+      const started = t.resumeOrStartSession(1000);
+      await vi.advanceTimersByTimeAsync(1000);
+      await started;
+      links.openSource = "launcher";
+      t.settleOpenSource();
+      await t.log("custom_event");
+
+      expect(t.getQueue().map((e) => [e.eventName, e.attributes!["app.open_source"]])).toEqual([
+        ["session.started", undefined],
+        ["custom_event", "launcher"],
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it("finalizeSession() emits session.finalized with journey summary + sdk.error_count, and flushes immediately", async () => {
     const sent: TelemetryEvent[] = [];
     const sender = captureSender(sent);
@@ -443,6 +752,22 @@ describe("v3 session lifecycle — started / finalized", () => {
     expect(typeof fin.attributes!["session.duration_ms"]).toBe("number");
     expect(fin.attributes!["session.event_count"]).toBeGreaterThanOrEqual(2);
   });
+
+  it("sdk.error_count skips handled reports below error severity", async () => {
+    const sent: TelemetryEvent[] = [];
+    const t = new Telemetry({
+      sender: captureSender(sent), batchSize: 50, flushIntervalMs: 0,
+      deviceInfoHandler: deviceHandler() as any, networkInfoHandler: networkHandler() as any,
+    });
+
+    for (const severity of ["fatal", "error", "warning", "info", "debug"]) {
+      await t.log("app.crash", { "crash.cause": "Handled", "crash.severity": severity });
+    }
+    await t.finalizeSession();
+
+    const fin = sent.find((e) => e.eventName === "session.finalized")!;
+    expect(fin.attributes!["sdk.error_count"]).toBe(2);
+  });
 });
 
 describe("v3 session lifecycle — 30-min idle rotation", () => {
@@ -480,6 +805,38 @@ describe("v3 session lifecycle — 30-min idle rotation", () => {
     }
   });
 
+  it("ends the open screen as session_end in the old session, then re-times it in the new one", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date(0));
+      const sent: TelemetryEvent[] = [];
+      const t = new Telemetry({
+        sender: captureSender(sent), batchSize: 50, flushIntervalMs: 0,
+        deviceInfoHandler: deviceHandler() as any, networkInfoHandler: networkHandler() as any,
+      });
+
+      await t.startSession();
+      t.screens.enterScreen("Home");
+      await t.log("custom_event");
+
+      vi.setSystemTime(new Date(31 * 60 * 1000));
+      await t.log("custom_event");
+      await t.shutdown();
+
+      const names = sent.map((e) => e.eventName);
+      expect(names.filter((n) => n === "session.finalized")).toHaveLength(1);   // no nested rotation
+      const [closing, last] = sent.filter((e) => e.eventName === "screen.duration");
+      expect(closing.attributes).toMatchObject({ "screen.name": "Home", "screen.exit_method": "session_end" });
+      expect(names.indexOf("screen.duration")).toBeLessThan(names.indexOf("session.finalized"));
+      expect(closing.attributes!["session.id"]).toBe(sent[0].attributes!["session.id"]);
+      // shutdown closes the re-timed screen too, in the new session
+      expect(last.attributes).toMatchObject({ "screen.exit_method": "session_end", "screen.duration_ms": 0 });
+      expect(last.attributes!["session.id"]).not.toBe(closing.attributes!["session.id"]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it("does not rotate within the idle window", async () => {
     vi.useFakeTimers();
     try {
@@ -502,6 +859,313 @@ describe("v3 session lifecycle — 30-min idle rotation", () => {
   });
 });
 
+describe("v3 session lifecycle — continuity across restarts", () => {
+  function captureSender(sent: TelemetryEvent[]) {
+    return { send: vi.fn(async (e: TelemetryEvent[]) => { sent.push(...e); }) };
+  }
+
+  // Simulates a cold start / page reload: a new core over the same persisted storage.
+  async function relaunch(storage: MemoryStore, sent: TelemetryEvent[]) {
+    const t = new Telemetry({
+      sender: captureSender(sent), batchSize: 50, flushIntervalMs: 0, storage,
+      deviceInfoHandler: deviceHandler() as any, networkInfoHandler: networkHandler() as any,
+    });
+    await t.resumeOrStartSession();
+    return t;
+  }
+
+  it("a relaunch inside the idle window resumes the session — same id/start_time, counters continue, no new session.started", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date(0));
+      const storage = new MemoryStore();
+      const sent: TelemetryEvent[] = [];
+
+      const first = await relaunch(storage, sent);
+      await first.log("custom_event");
+      await first.log("app.crash", { "crash.cause": "Error" });
+      await first.flush();   // ack #1 → sequence 1
+
+      vi.setSystemTime(new Date(10 * 1000));   // relaunched 10 s later
+      const second = await relaunch(storage, sent);
+      await second.log("custom_event");
+      await second.finalizeSession();
+
+      expect(sent.filter((e) => e.eventName === "session.started")).toHaveLength(1);
+      const ids = new Set(sent.map((e) => e.attributes!["session.id"]));
+      expect(ids.size).toBe(1);
+      const starts = new Set(sent.map((e) => e.attributes!["session.start_time"]));
+      expect(starts.size).toBe(1);
+
+      const after = sent.filter((e) => e.eventName === "custom_event")[1];
+      expect(after.attributes!["session.sequence"]).toBe(1);
+
+      const fin = sent.find((e) => e.eventName === "session.finalized")!;
+      expect(fin.attributes!["sdk.error_count"]).toBe(1);
+      expect(fin.attributes!["session.event_count"]).toBeGreaterThanOrEqual(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("a resumed session takes the relaunch's open source", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+    await relaunch(storage, sent);
+
+    const t = new Telemetry({
+      sender: captureSender(sent), batchSize: 50, flushIntervalMs: 0, storage,
+      deviceInfoHandler: deviceHandler() as any, networkInfoHandler: networkHandler() as any,
+    });
+    t.trackDeepLinks({ start: async () => undefined, openSource: "deep_link", takePending: () => undefined });
+    await t.resumeOrStartSession(1000);
+    await t.log("custom_event");
+
+    const resumed = t.getQueue().filter((e) => e.eventName !== "session.started");   // the first run's, replayed
+    expect(resumed.map((e) => [e.eventName, e.attributes!["app.open_source"]])).toEqual([["custom_event", "deep_link"]]);
+  });
+
+  it("a relaunch after 30 min idle starts a fresh session", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date(0));
+      const storage = new MemoryStore();
+      const sent: TelemetryEvent[] = [];
+
+      const first = await relaunch(storage, sent);
+      await first.log("custom_event");
+      await first.flush();
+
+      vi.setSystemTime(new Date(31 * 60 * 1000));
+      const second = await relaunch(storage, sent);
+      await second.flush();
+
+      expect(sent.filter((e) => e.eventName === "session.started")).toHaveLength(2);
+      expect(second.getSessionId()).not.toBe(first.getSessionId());
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("emits a synthetic, unclean session.finalized for a prior session that was never finalized", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date(0));
+      const storage = new MemoryStore();
+      const sent: TelemetryEvent[] = [];
+
+      // first run: activity, then the process dies (no background → no finalize)
+      const first = await relaunch(storage, sent);
+      vi.setSystemTime(new Date(60 * 1000));
+      await first.log("custom_event");
+      await first.log("app.crash", { "crash.cause": "Error" });
+      await first.flush();
+      const priorId = first.getSessionId();
+
+      vi.setSystemTime(new Date(2 * 60 * 60 * 1000));   // next launch, two hours later
+      const second = await relaunch(storage, sent);
+      await second.flush();
+
+      const fin = sent.find((e) => e.eventName === "session.finalized")!;
+      expect(fin).toBeDefined();
+      expect(fin.attributes!["session.id"]).toBe(priorId);
+      expect(fin.attributes!["session.start_time"]).toBe(new Date(0).toISOString());
+      expect(fin.attributes!["session.unclean_exit"]).toBe(true);
+      expect(fin.attributes!["sdk.error_count"]).toBe(1);
+      expect(fin.attributes!["session.event_count"]).toBe(2);
+      expect(fin.attributes!["session.duration_ms"]).toBe(60 * 1000);   // start → last checkpointed activity
+
+      // then a fresh session starts
+      const names = sent.map((e) => e.eventName);
+      expect(names.lastIndexOf("session.started")).toBeGreaterThan(names.indexOf("session.finalized"));
+      expect(second.getSessionId()).not.toBe(priorId);
+
+      // recovered once: a third launch does not re-finalize it
+      const third = await relaunch(storage, sent);
+      await third.flush();
+      expect(sent.filter((e) => e.eventName === "session.finalized")).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("an offline launch still starts the new session after recovering the prior one", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date(0));
+      const storage = new MemoryStore();
+      const first = await relaunch(storage, []);
+      await first.log("custom_event");
+      const priorId = first.getSessionId();
+
+      vi.setSystemTime(new Date(2 * 60 * 60 * 1000));
+      const offline = { send: vi.fn(async () => { throw new Error("offline"); }) };
+      const second = new Telemetry({ sender: offline, batchSize: 50, flushIntervalMs: 0, storage, detectUncleanExit: true });
+      await second.resumeOrStartSession();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(offline.send).toHaveBeenCalled();
+      expect(second.getSessionId()).not.toBe(priorId);
+      expect(await storage.getItem("telemetry_run_marker")).not.toBeNull();
+      const names = second.getQueue().map((e) => e.eventName);
+      expect(names).toEqual(expect.arrayContaining(["session.finalized", "session.started"]));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("a clean finalize carries no unclean marker", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+    const t = await relaunch(storage, sent);
+    await t.finalizeSession();
+
+    const fin = sent.find((e) => e.eventName === "session.finalized")!;
+    expect(fin.attributes!["session.unclean_exit"]).toBeUndefined();
+  });
+
+  it("never resumes a finalized session", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+
+    const first = await relaunch(storage, sent);
+    await first.finalizeSession();
+    const second = await relaunch(storage, sent);
+    await second.flush();
+
+    expect(second.getSessionId()).not.toBe(first.getSessionId());
+    expect(sent.filter((e) => e.eventName === "session.started")).toHaveLength(2);
+  });
+});
+
+describe("unclean-exit detection — run marker", () => {
+  // fake timers so the debounced breadcrumb mirror can be flushed deterministically
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+  const settle = () => vi.advanceTimersByTimeAsync(1000);
+
+  function captureSender(sent: TelemetryEvent[]) {
+    return { send: vi.fn(async (e: TelemetryEvent[]) => { sent.push(...e); }) };
+  }
+
+  // A native launch: detection on, over storage shared with the previous run.
+  async function launch(storage: MemoryStore, sent: TelemetryEvent[], detectUncleanExit = true) {
+    const t = new Telemetry({
+      sender: captureSender(sent), batchSize: 50, flushIntervalMs: 0, storage, detectUncleanExit,
+      deviceInfoHandler: deviceHandler() as any, networkInfoHandler: networkHandler() as any,
+    });
+    await t.resumeOrStartSession();
+    return t;
+  }
+
+  const crashes = (sent: TelemetryEvent[]) => sent.filter((e) => e.eventName === "app.crash");
+
+  it("reports a run that died without a clean exit as NativeCrash on the next launch, once", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+
+    const first = await launch(storage, sent);
+    first.recordRouteChange("Home", "Checkout");
+    await first.log("custom_tap", { step: 1 });
+    await settle();   // process dies here: no background, no shutdown
+
+    const second = await launch(storage, sent);
+    await second.flush();
+
+    const [crash] = crashes(sent);
+    expect(crash.attributes).toMatchObject({
+      "crash.cause": "NativeCrash",
+      "crash.fatal": true,
+      "crash.previous_session_id": first.getSessionId(),
+      "crash.screen": "Checkout",
+    });
+    // the dead run's trail, not the new run's
+    const trail = JSON.parse(crash.attributes!["crash.breadcrumbs"]).map((b: any) => b.name);
+    expect(trail).toContain("custom_event");
+    expect(trail).toContain("session.started");
+
+    await second.shutdown();
+    await settle();
+    const third = await launch(storage, sent);
+    await third.flush();
+    expect(crashes(sent)).toHaveLength(1);
+  });
+
+  it("a clean background clears the marker — no report", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+
+    const first = await launch(storage, sent);
+    await first.log("custom_tap");
+    await first.finalizeSession();   // AppState background
+    await first.log("late_background_request");   // must not re-arm the marker
+    await settle();
+
+    const second = await launch(storage, sent);
+    await second.flush();
+    expect(crashes(sent)).toEqual([]);
+  });
+
+  it("reports OOMKill when the last memory sample was high pressure", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+
+    const first = await launch(storage, sent);
+    await first.logMetric("memory_usage", 600, { "memory.pressure_level": "high" });
+    await settle();
+
+    const second = await launch(storage, sent);
+    await second.flush();
+    expect(crashes(sent).map((e) => e.attributes!["crash.cause"])).toEqual(["OOMKill"]);
+  });
+
+  it("is off unless enabled (the web build never reports a closed tab as a crash)", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+
+    await launch(storage, sent, false);
+    await settle();
+    const second = await launch(storage, sent, false);
+    await second.flush();
+    expect(crashes(sent)).toEqual([]);
+  });
+
+  it("keeps the previous run's trail out of the new run's crashes", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+
+    const first = await launch(storage, sent);
+    await first.log("navigation", { "navigation.to_screen": "Checkout" });
+    await settle();
+
+    const second = await launch(storage, sent);
+    await second.log("app.crash", { "crash.cause": "JSError" });
+    await second.flush();
+
+    const [previous, current] = crashes(sent).map((e) => JSON.parse(e.attributes!["crash.breadcrumbs"]).map((b: any) => b.name));
+    expect(previous).toContain("navigation");
+    expect(current).not.toContain("navigation");
+  });
+
+  it("mirrors the trail with debounced writes, dropped on a clean exit", async () => {
+    const storage = new MemoryStore();
+    const setItem = vi.spyOn(storage, "setItem");
+    const trailWrites = () => setItem.mock.calls.filter(([key]) => key === "telemetry_breadcrumbs").length;
+
+    const t = await launch(storage, []);
+    for (let i = 0; i < 10; i++) await t.log("custom_tap", { i });
+    expect(trailWrites()).toBe(0);
+
+    await settle();
+    expect(trailWrites()).toBe(1);
+    expect(JSON.parse((await storage.getItem("telemetry_breadcrumbs"))!)).toHaveLength(11);   // + session.started
+
+    await t.finalizeSession();
+    await settle();
+    expect(await storage.getItem("telemetry_breadcrumbs")).toBeNull();
+  });
+});
+
 describe("v3 session lifecycle — session.sequence", () => {
   it("increments once per acknowledged (2xx) batch and rides every event", async () => {
     const sent: TelemetryEvent[] = [];
@@ -572,6 +1236,60 @@ describe("v3 identify() — user.profile.update", () => {
   });
 });
 
+describe("persisted user.id", () => {
+  it("reuses the stored user.id across instances sharing storage (cold start / reload)", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+    const sender = { send: vi.fn(async (e: TelemetryEvent[]) => { sent.push(...e); }) };
+
+    const first = new Telemetry({ sender, batchSize: 50, flushIntervalMs: 0, storage });
+    await first.log("custom_event");
+    await first.flush();
+
+    const second = new Telemetry({ sender, batchSize: 50, flushIntervalMs: 0, storage });
+    await second.log("custom_event");
+    await second.identify({ name: "Ada" });
+    await second.log("custom_event");
+    await second.flush();
+
+    const ids = new Set(sent.map((e) => e.attributes!["user.id"]));
+    expect(ids.size).toBe(1);
+    expect([...ids][0]).toMatch(/^user_\d+_[0-9a-f]{16}$/);
+  });
+
+  it("loads the stored id before the first event is queued", async () => {
+    const storage = new MemoryStore();
+    await storage.setItem("telemetry_user_id", "user_1_0123456789abcdef");
+    const sent: TelemetryEvent[] = [];
+    const sender = { send: vi.fn(async (e: TelemetryEvent[]) => { sent.push(...e); }) };
+
+    const t = new Telemetry({ sender, batchSize: 50, flushIntervalMs: 0, storage });
+    await t.log("custom_event");   // logged immediately after construction
+    await t.flush();
+
+    expect(sent[0].attributes!["user.id"]).toBe("user_1_0123456789abcdef");
+  });
+
+  it("resetUser() switches to a fresh persisted id and clears identify()'d identity", async () => {
+    const storage = new MemoryStore();
+    const sent: TelemetryEvent[] = [];
+    const sender = { send: vi.fn(async (e: TelemetryEvent[]) => { sent.push(...e); }) };
+
+    const t = new Telemetry({ sender, batchSize: 50, flushIntervalMs: 0, storage });
+    await t.identify({ name: "Ada" });
+    await t.log("custom_event");
+    const newId = await t.resetUser();
+    await t.log("custom_event");
+    await t.flush();
+
+    const [before, after] = sent.filter((e) => e.eventName === "custom_event").map((e) => e.attributes!);
+    expect(after["user.id"]).toBe(newId);
+    expect(after["user.id"]).not.toBe(before["user.id"]);
+    expect(after["user.name"]).toBeUndefined();
+    expect(await storage.getItem("telemetry_user_id")).toBe(newId);
+  });
+});
+
 describe("flush() retry/persistence", () => {
   it("calls the sender exactly once on success (no core-level retry layer)", async () => {
     const sender = { send: vi.fn(async () => undefined), onFailure: vi.fn(async () => undefined) };
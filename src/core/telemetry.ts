@@ -1,8 +1,15 @@
 import { debug } from "./debug";
 import { NavigationTracker } from "../adapters/navigationTracker";
 import { ScreenTimingTracker } from "../adapters/screenTiming";
-import { BreadcrumbBuffer } from "./breadcrumbs";
+import { BreadcrumbBuffer, BreadcrumbStore, eventBreadcrumb, consoleBreadcrumb, customBreadcrumb, type Breadcrumb, type BreadcrumbInput } from "./breadcrumbs";
 import { randomHex } from "./utils/uuid";
+import { IdentityStore, generateUserId } from "./identity";
+import { MemoryStore, type KeyValueStore } from "./storage";
+import { ContextCache } from "./contextCache";
+import { SessionStore, type SessionState } from "./session";
+import { RunMarkerStore, type RunMarker } from "./runMarker";
+import { buildCrashAttributes } from "../adapters/crashCapture";
+import { crashFingerprint } from "../adapters/crashFingerprint";
 import { version as PKG_VERSION } from "../../package.json";
 
 // v3 wire contract constants
@@ -21,6 +28,9 @@ const ALLOWED_NAMES = new Set<string>([
     "LCP", "FCP", "CLS", "INP", "TTFB",
 ]);
 
+// Handled reports at these levels are logged as app.crash but aren't errors: kept out of sdk.error_count
+const UNCOUNTED_SEVERITIES = new Set<unknown>(["warning", "info", "debug"]);
+
 // Events carry `eventName`; metrics carry `metricName` + numeric `value` (v3 §"Event vs Metric").
 // Kept as one loose shape (not a strict union) so callers can read `.eventName` without narrowing;
 // the emit helpers (log / logMetric) set the right fields, and JSON.stringify drops the undefined ones.
@@ -85,6 +95,39 @@ export interface NavigationHandler {
     start(): Promise<void>;
 }
 
+export interface WebVitalsHandler {
+    start(): Promise<void>;
+}
+
+export interface PageLoadHandler {
+    start(): Promise<void>;
+}
+
+export interface ResourceTimingHandler {
+    start(): Promise<void>;
+}
+
+export interface LongTaskHandler {
+    start(): Promise<void>;
+}
+
+export interface InteractionHandler {
+    start(): Promise<void>;
+}
+
+export interface StallHandler {
+    start(): Promise<void>;
+}
+
+// how the app was brought to the foreground: tagged as `app.open_source`
+export type OpenSource = "launcher" | "deep_link" | "resume";
+
+export interface DeepLinkHandler {
+    start(): Promise<void>;
+    readonly openSource: OpenSource | undefined;   // undefined until the launch URL is known
+    takePending(): string | undefined;   // redacted link waiting for the route change it causes
+}
+
 
 export interface DeviceInfo {
     app: {
@@ -135,6 +178,10 @@ type Opts = {
     platform?: string;          // device OS (ios|android|web); forms the device/session id suffix
     deviceInfoHandler?: DeviceInfoHandler;
     networkInfoHandler?: NetworkInfoHandler;
+    storage?: KeyValueStore;    // persisted SDK state (AsyncStorage native / localStorage web); memory if omitted
+    identity?: IdentityStore;   // shared with the device adapter so user.id/device.id come from one store
+    maxBreadcrumbs?: number;    // crash.breadcrumbs trail length (default 20)
+    detectUncleanExit?: boolean; // run marker + persisted breadcrumbs → next-launch NativeCrash/OOMKill report (native)
 };
 
 /**
@@ -155,16 +202,34 @@ export class Telemetry {
     // last-known screen; best-effort context for user.interaction taps (#33)
     public currentScreen?: string;
 
-    private networkInfoHandler: NetworkInfoHandler;
-    private deviceInfoHandler: DeviceInfoHandler;
+    // memoized device/network snapshots behind the Context block
+    private context: ContextCache;
+    private networkInfoStarted = false;   // a network handler's change listener is attached
 
     private frameDropsHandler?: FrameDropsHandler;
     private networkHandler?: NetworkHandler;
     private memoryHandler?: MemoryHandler;
     private navigationHandler?: NavigationHandler;
+    private webVitalsHandler?: WebVitalsHandler;
+    private pageLoadHandler?: PageLoadHandler;
+    private resourceTimingHandler?: ResourceTimingHandler;
+    private longTaskHandler?: LongTaskHandler;
+    private interactionHandler?: InteractionHandler;
+    private stallHandler?: StallHandler;
+    private deepLinkHandler?: DeepLinkHandler;
+    // app.open_source of the current session, once known; rides in the Context block
+    private sessionOpenSource?: OpenSource;
+    private openSourcePending = false;    // session opened by launch/foreground, source not yet known
+    private openSourceWaiters: Array<() => void> = [];   // launch waiting for the source (resumeOrStartSession)
+    // while the launch session is being opened, other events wait so they follow session.started
+    private launchGate?: Promise<void>;
+    // notified synchronously on every log() — lets adapters (tap analysis) watch app activity
+    private eventListeners = new Set<(name: string) => void>();
 
 
     // session / user state
+    private identity: IdentityStore;
+    private ready: Promise<void>;        // persisted identity + session restored; gates the first queued event
     private userId?: string | null = undefined;
     private userProfile?: UserProfile = undefined;
     private sessionId: string;
@@ -172,13 +237,27 @@ export class Telemetry {
     private sdkVersion: string;
     private platform?: string;
     private eventCount = 0;
-    // last-20 action trail, attached to app.crash as crash.breadcrumbs (#28)
-    private breadcrumbs = new BreadcrumbBuffer(20);
+    // last-N action trail (default 20), attached to app.crash as crash.breadcrumbs (#28)
+    private breadcrumbs: BreadcrumbBuffer;
+    private breadcrumbStore?: BreadcrumbStore;   // mirrors `breadcrumbs` for the next launch
+    private priorBreadcrumbs?: Breadcrumb[];            // the previous run's trail — never mixed into `breadcrumbs`
     // session lifecycle (#29)
     private lastActivity?: number;       // last non-session event time; drives 30-min idle rotation
     private sessionSequence = 0;         // increments per acknowledged (2xx) batch
     private sessionEventCount = 0;       // events this session (journey summary)
     private errorCount = 0;              // app.crash count this session (sdk.error_count)
+    private crashCounts = new Map<string, number>();   // occurrences per crash.fingerprint this session
+    private sessionFinalized = false;    // session.finalized sent; a finalized session never resumes
+    private rotating = false;            // inside rotateSession()
+    private sessionStore: SessionStore;  // checkpoints the above so a relaunch can resume
+    private resumedSession = false;      // restored a live session at startup — no new session.started
+    private abandonedSession?: SessionState;   // prior run's session, idle-expired but never finalized
+    // unclean-exit detection: marker set while running, cleared on a clean background/shutdown
+    private runMarker?: RunMarkerStore;
+    private priorRun?: RunMarker;        // marker left by a run that never exited cleanly
+    private running = false;             // foregrounded since the last clean exit
+    private runStart = Date.now();
+    private memoryPressure?: string;     // last memory_usage pressure level
 
     constructor(opts?: Opts) {
         this.sender = opts?.sender;
@@ -189,9 +268,20 @@ export class Telemetry {
 
         // start a session
         this.sessionId = opts?.sessionId ?? this.generateSessionId();
-        this.userId = opts?.userId ?? this.generateUserId();
         this.sessionStart = Date.now();
         this.sdkVersion = opts?.sdkVersion ?? SDK_VERSION;
+        this.breadcrumbs = new BreadcrumbBuffer(Math.max(1, opts?.maxBreadcrumbs ?? 20));
+
+        // user.id and the live session survive restarts: explicit opts win, else persisted state
+        const storage = opts?.storage ?? new MemoryStore();
+        this.identity = opts?.identity ?? new IdentityStore(storage);
+        this.sessionStore = new SessionStore(storage);
+        if (opts?.detectUncleanExit) {
+            this.runMarker = new RunMarkerStore(storage);
+            this.breadcrumbStore = new BreadcrumbStore(storage);
+        }
+        this.userId = opts?.userId ?? undefined;
+        this.ready = this.restore(opts?.sessionId === undefined);
 
         // auto replay if supported
         if (this.sender?.replayFailed) {
@@ -208,17 +298,22 @@ export class Telemetry {
         this.navigationTracker = new NavigationTracker(this);
         this.screens = new ScreenTimingTracker(this);
 
-        this.deviceInfoHandler = opts?.deviceInfoHandler ?? {
-            start: async () => Promise.resolve(),
-            collect: async () => Promise.resolve({
-                app: { name: '', version: '' },
-                device: { id: '', platform: '' }
-            })
-        };
-        this.networkInfoHandler = opts?.networkInfoHandler ?? {
-            start: async () => Promise.resolve({}),
-            collect: async () => Promise.resolve({})
-        };
+        this.context = new ContextCache(
+            opts?.deviceInfoHandler ?? {
+                start: async () => Promise.resolve(),
+                collect: async () => Promise.resolve({
+                    app: { name: '', version: '' },
+                    device: { id: '', platform: '' }
+                })
+            },
+            opts?.networkInfoHandler ?? {
+                start: async () => Promise.resolve({}),
+                collect: async () => Promise.resolve({})
+            },
+        );
+        // the cached network.* snapshot is only refreshed by the handler's change listener,
+        // so a configured handler is started right away rather than on getNetworkInfo()
+        if (opts?.networkInfoHandler) this.startNetworkInfo(opts.networkInfoHandler);
 
     }
 
@@ -232,14 +327,25 @@ export class Telemetry {
     }
 
     getDeviceInfo(deviceInfoHandler: DeviceInfoHandler) {
-        this.deviceInfoHandler = deviceInfoHandler;
+        this.context.setDeviceHandler(deviceInfoHandler);
         void deviceInfoHandler.start(this).catch((err) => {
             debug.warn("Telemetry deviceInfo tracking start failed:", err);
         });
     }
 
     getNetworkInfo(networkInfoHandler: NetworkInfoHandler) {
-        this.networkInfoHandler = networkInfoHandler;
+        // already listening: swap in the new handler's collect() but keep the one change listener,
+        // since a second start would emit every network_change twice
+        if (this.networkInfoStarted) {
+            this.context.setNetworkHandler(networkInfoHandler);
+            return;
+        }
+        this.startNetworkInfo(networkInfoHandler);
+    }
+
+    private startNetworkInfo(networkInfoHandler: NetworkInfoHandler) {
+        this.networkInfoStarted = true;
+        this.context.setNetworkHandler(networkInfoHandler);
         void networkInfoHandler.start(this).catch((err) => {
             debug.warn("Telemetry networkInfoHandler start failed:", err);
         });
@@ -273,6 +379,97 @@ export class Telemetry {
         });
     }
 
+    public trackWebVitals(webVitalsHandler: WebVitalsHandler) {
+        this.webVitalsHandler = webVitalsHandler;
+        void webVitalsHandler.start().catch((err) => {
+            debug.warn("Telemetry webVitalsHandler start failed:", err);
+        });
+    }
+
+    public trackPageLoad(pageLoadHandler: PageLoadHandler) {
+        this.pageLoadHandler = pageLoadHandler;
+        void pageLoadHandler.start().catch((err) => {
+            debug.warn("Telemetry pageLoadHandler start failed:", err);
+        });
+    }
+
+    public trackResourceTiming(resourceTimingHandler: ResourceTimingHandler) {
+        this.resourceTimingHandler = resourceTimingHandler;
+        void resourceTimingHandler.start().catch((err) => {
+            debug.warn("Telemetry resourceTimingHandler start failed:", err);
+        });
+    }
+
+    public trackLongTasks(longTaskHandler: LongTaskHandler) {
+        this.longTaskHandler = longTaskHandler;
+        void longTaskHandler.start().catch((err) => {
+            debug.warn("Telemetry longTaskHandler start failed:", err);
+        });
+    }
+
+    public trackInteractions(interactionHandler: InteractionHandler) {
+        this.interactionHandler = interactionHandler;
+        void interactionHandler.start().catch((err) => {
+            debug.warn("Telemetry interactionHandler start failed:", err);
+        });
+    }
+
+    public trackStalls(stallHandler: StallHandler) {
+        this.stallHandler = stallHandler;
+        void stallHandler.start().catch((err) => {
+            debug.warn("Telemetry stallHandler start failed:", err);
+        });
+    }
+
+    public trackDeepLinks(deepLinkHandler: DeepLinkHandler) {
+        this.deepLinkHandler = deepLinkHandler;
+        this.settleOpenSource();
+        void deepLinkHandler.start().catch((err) => {
+            debug.warn("Telemetry deepLinkHandler start failed:", err);
+        });
+    }
+
+    /**
+     * The deep-link adapter's open source may have become known: adopt it for the current
+     * session if that is still waiting for one, and wake a launch waiting for it. The launch
+     * source depends on Linking's initial URL; if that outlasts the launch wait, events from
+     * when it settles carry it.
+     */
+    public settleOpenSource() {
+        const source = this.deepLinkHandler?.openSource;
+        if (!source) return;
+        for (const wake of this.openSourceWaiters.splice(0)) wake();
+        if (!this.openSourcePending) return;
+        this.sessionOpenSource = source;
+        this.openSourcePending = false;
+    }
+
+    // resolves once the open source is known, or after `ms`
+    private waitForOpenSource(ms: number): Promise<void> {
+        if (ms <= 0 || this.deepLinkHandler?.openSource) return Promise.resolve();
+        return new Promise((resolve) => {
+            const timer = setTimeout(wake, ms);
+            this.openSourceWaiters.push(wake);
+            const waiters = this.openSourceWaiters;
+            function wake() {
+                clearTimeout(timer);
+                const i = waiters.indexOf(wake);
+                if (i >= 0) waiters.splice(i, 1);
+                resolve();
+            }
+        });
+    }
+
+    /** How the app came forward; undefined until a deep-link adapter is attached (native). */
+    public get openSource(): OpenSource | undefined {
+        return this.deepLinkHandler?.openSource;
+    }
+
+    /** Claim the deep link behind the route change being recorded (navigation.method deep_link). */
+    public takeDeepLink(): string | undefined {
+        return this.deepLinkHandler?.takePending();
+    }
+
 
     private generateSessionId(): string {
         const base = `session_${Date.now()}_${randomHex(16)}`;
@@ -282,6 +479,7 @@ export class Telemetry {
     public setSessionId(id: string) {
         this.sessionId = id;
         this.sessionStart = Date.now();
+        this.checkpointSession();
     }
 
     public getSessionId(): string {
@@ -293,27 +491,162 @@ export class Telemetry {
         return this.endpoint;
     }
 
+    /** Persisted identity store, so a device adapter swapped in later reuses the same device.id. */
+    public getIdentity(): IdentityStore {
+        return this.identity;
+    }
+
     public startNewSession() {
         this.sessionId = this.generateSessionId();
         this.sessionStart = Date.now();
+        this.checkpointSession();
     }
 
     // ---------- Session lifecycle (#29) ----------
 
-    /** Emit session.started for the current session (init / resume). */
+    /**
+     * Emit session.started for the current session (init / resume). Launch and foreground
+     * sessions carry `app.open_source` from when it is known (see settleOpenSource); an idle
+     * rotation is not an open, so it doesn't.
+     */
     public async startSession() {
         this.lastActivity = Date.now();
+        this.sessionOpenSource = undefined;
+        this.openSourcePending = !this.rotating;
+        this.settleOpenSource();
         await this.log("session.started", {});
     }
 
-    /** Finalize the current session: journey summary + sdk.error_count, then an immediate flush. */
+    /**
+     * Init entry point: continue the persisted session if it was active within the idle
+     * window (a quick relaunch / reload), otherwise emit session.started for a fresh one.
+     * A prior session that ended by crash / OS kill / closed tab gets its session.finalized
+     * first, marked `session.unclean_exit`. With unclean-exit detection on, a run marker left
+     * by the previous run is then reported as `app.crash` (NativeCrash / OOMKill).
+     *
+     * `openSourceWaitMs` (native, with a deep-link adapter): wait up to that long for the launch
+     * `app.open_source` so session.started carries it. Events logged meanwhile are held and
+     * queued after session.started.
+     */
+    public async resumeOrStartSession(openSourceWaitMs = 0) {
+        let release = () => { };
+        this.launchGate = new Promise<void>((resolve) => { release = resolve; });
+        try {
+            await this.ready;
+            await this.waitForOpenSource(openSourceWaitMs);
+            const abandoned = this.abandonedSession;
+            if (abandoned) {
+                this.abandonedSession = undefined;
+                await this.recoverSession(abandoned);
+                await this.newSession();
+            } else if (this.resumedSession) {
+                this.lastActivity = Date.now();   // the relaunch itself is activity
+                this.openSourcePending = true;    // …and an open: its source replaces the last run's
+                this.settleOpenSource();
+                this.checkpointSession();
+                debug.log("Telemetry: resumed session", this.sessionId);
+            } else {
+                await this.startSession();
+            }
+        } finally {
+            this.launchGate = undefined;
+            release();
+        }
+
+        const prior = this.priorRun;
+        this.priorRun = undefined;
+        if (prior) await this.reportUncleanExit(prior);
+        this.priorBreadcrumbs = undefined;
+        this.markRunning();
+    }
+
+    /**
+     * Finalize the current session: journey summary + sdk.error_count, then an immediate flush.
+     * This is the clean exit (background), so the run marker is cleared.
+     */
     public async finalizeSession() {
+        this.clearRunMarker();
+        await this.emitFinalized(Date.now() - this.sessionStart);
+    }
+
+    // The previous run left its marker: it died without a clean background/shutdown. A native
+    // crash or OS kill never reaches JS, so this is the only report it gets. High memory
+    // pressure at the last sample points at the OOM killer.
+    private async reportUncleanExit(prior: RunMarker) {
+        const oom = prior.memoryPressure === "high";
+        debug.log("Telemetry: previous run exited uncleanly", prior.sessionId);
+        const attrs: Record<string, any> = {
+            ...buildCrashAttributes(oom ? "OOMKill" : "NativeCrash", {
+                message: oom
+                    ? "App was terminated under high memory pressure"
+                    : "App terminated without a clean exit",
+                fatal: true,
+            }),
+            "crash.previous_session_id": prior.sessionId,
+            "crash.breadcrumbs": JSON.stringify(this.priorBreadcrumbs ?? []),
+        };
+        if (prior.screen) attrs["crash.screen"] = prior.screen;
+        await this.log("app.crash", attrs);
+    }
+
+    private markRunning(): void {
+        if (!this.runMarker) return;
+        if (!this.running) this.runStart = Date.now();
+        this.running = true;
+        this.saveRunMarker();
+        this.breadcrumbStore?.save(this.breadcrumbs.toJSON());
+    }
+
+    /** App-specific step for the crash trail, e.g. `{ message: "payment submitted" }`. Not sent on its own. */
+    public addBreadcrumb(input: BreadcrumbInput): void {
+        this.pushBreadcrumb(customBreadcrumb(input));
+    }
+
+    private pushBreadcrumb(crumb: Breadcrumb): void {
+        this.breadcrumbs.add(crumb);
+        if (this.running) this.breadcrumbStore?.save(this.breadcrumbs.toJSON());
+    }
+
+    private saveRunMarker(): void {
+        if (!this.runMarker || !this.running) return;
+        this.runMarker.save({
+            sessionId: this.sessionId,
+            startedAt: this.runStart,
+            screen: this.currentScreen,
+            memoryPressure: this.memoryPressure,
+        });
+    }
+
+    private clearRunMarker(): void {
+        if (!this.runMarker || !this.running) return;
+        this.running = false;
+        this.runMarker.clear();
+        this.breadcrumbStore?.clear();
+    }
+
+    // Synthetic session.finalized for a prior run's session that never got one. Its checkpointed
+    // state becomes current so the event carries that session's id/start_time/sequence; the
+    // last checkpointed activity is the best available end time.
+    private async recoverSession(prior: SessionState) {
+        this.adoptSession(prior);
+        debug.log("Telemetry: finalizing abandoned session", prior.id);
+        await this.emitFinalized((prior.lastActivity ?? prior.startTime) - prior.startTime, {
+            "session.unclean_exit": true,
+        });
+    }
+
+    private async emitFinalized(durationMs: number, extra?: Record<string, any>) {
         await this.log("session.finalized", {
-            "session.duration_ms": Date.now() - this.sessionStart,
+            "session.duration_ms": durationMs,
             "session.event_count": this.sessionEventCount,
             "sdk.error_count": this.errorCount,
+            ...extra,
         });
-        await this.flush();
+        this.sessionFinalized = true;
+        this.checkpointSession();
+        // an offline send is requeued/persisted by flush(); it must not abort the caller's
+        // lifecycle step (launch recovery goes on to newSession() and the run marker)
+        await this.flush().catch(() => { });
     }
 
     /** Begin a fresh session: new id/start, reset per-session counters, emit session.started. */
@@ -323,13 +656,24 @@ export class Telemetry {
         this.sessionSequence = 0;
         this.sessionEventCount = 0;
         this.errorCount = 0;
+        this.crashCounts.clear();
+        this.sessionFinalized = false;
+        this.checkpointSession();
+        this.markRunning();   // foregrounded again (or rotated) — the run is live
         await this.startSession();
     }
 
     /** Idle/boundary rotation: finalize the old session then start a fresh one (the pair). */
     public async rotateSession() {
-        await this.finalizeSession();
-        await this.newSession();
+        this.rotating = true;
+        try {
+            await this.screens.suspend("session_end");   // the open screen's dwell belongs to the old session
+            await this.finalizeSession();
+            await this.newSession();
+            this.screens.resume();
+        } finally {
+            this.rotating = false;
+        }
     }
 
     public setUserId(id: string) {
@@ -341,7 +685,67 @@ export class Telemetry {
     }
 
     public generateUserId(): string {
-        return `user_${Date.now()}_${randomHex(16)}`;
+        return generateUserId();
+    }
+
+    /**
+     * Logout: replace the persisted anonymous user.id with a fresh one and drop the host
+     * identity attached by identify(). Subsequent events carry the new id.
+     */
+    public async resetUser(): Promise<string> {
+        await this.ready;
+        const id = await this.identity.resetUserId();
+        this.userId = id;
+        this.clearUserProfile();
+        return id;
+    }
+
+    // Load (or mint) the persisted user.id — a setUserId()/opts.userId that landed first wins —
+    // and adopt the persisted session when it's unfinalized and inside the 30-min idle window.
+    // An unfinalized session past the window is kept aside for resumeOrStartSession() to finalize.
+    private async restore(restoreSession: boolean): Promise<void> {
+        const [id, session, marker, trail] = await Promise.all([
+            this.identity.loadUserId(),
+            restoreSession ? this.sessionStore.load() : Promise.resolve(undefined),
+            this.runMarker ? this.runMarker.load() : Promise.resolve(undefined),
+            this.breadcrumbStore ? this.breadcrumbStore.load() : Promise.resolve(undefined),
+        ]);
+        if (this.userId == null) this.userId = id;
+        this.priorRun = marker;
+        if (marker) this.priorBreadcrumbs = trail;   // without a marker the last run exited cleanly
+
+        if (!session || session.finalized) return;
+        if (Date.now() - (session.lastActivity ?? session.startTime) <= SESSION_IDLE_MS) {
+            this.adoptSession(session);
+            this.resumedSession = true;
+        } else {
+            this.abandonedSession = session;
+        }
+    }
+
+    private adoptSession(session: SessionState): void {
+        this.sessionId = session.id;
+        this.sessionStart = session.startTime;
+        this.sessionSequence = session.sequence;
+        this.sessionEventCount = session.eventCount;
+        this.errorCount = session.errorCount;
+        this.crashCounts.clear();
+        this.lastActivity = session.lastActivity;
+        this.sessionFinalized = false;
+    }
+
+    // Persist the session lifecycle state (coalesced, fire-and-forget) so a relaunch can resume it.
+    private checkpointSession(): void {
+        const state: SessionState = {
+            id: this.sessionId,
+            startTime: this.sessionStart,
+            sequence: this.sessionSequence,
+            eventCount: this.sessionEventCount,
+            errorCount: this.errorCount,
+            lastActivity: this.lastActivity,
+            finalized: this.sessionFinalized,
+        };
+        this.sessionStore.save(state);
     }
 
     // ---------- User Profile Management ----------
@@ -467,23 +871,48 @@ export class Telemetry {
 
     // ---------- Logging APIs ----------
 
+    // Fingerprint the crash and count it for this session. The first occurrence ships in full;
+    // repeats are collapsed to the fingerprint + running `crash.occurrence` — no stack, frames
+    // or breadcrumbs — since the backend already has those from the first one.
+    private groupCrash(attributes: Record<string, any>): void {
+        const fingerprint = attributes['crash.fingerprint'] ?? crashFingerprint(attributes);
+        const occurrence = (this.crashCounts.get(fingerprint) ?? 0) + 1;
+        this.crashCounts.set(fingerprint, occurrence);
+        attributes['crash.fingerprint'] = fingerprint;
+        attributes['crash.occurrence'] = occurrence;
+
+        if (occurrence > 1) {
+            delete attributes['crash.stacktrace'];
+            delete attributes['crash.frames'];
+            delete attributes['crash.breadcrumbs'];
+            return;
+        }
+        // a caller-supplied trail wins: a previous-run report carries that run's breadcrumbs
+        if (attributes['crash.breadcrumbs'] === undefined) attributes['crash.breadcrumbs'] = this.breadcrumbs.toJSON();
+    }
+
     /**
      * Log a named event. Keeps existing signature compatibility.
      * Automatically attaches userId and sessionId to every queued event.
      */
     async log(name: string, data?: Record<string, any>) {
+        this.notifyListeners(name);
+        await this.ready;   // restored session counters/ids must be in place before we touch them
+        if (this.launchGate && !name.startsWith('session.')) await this.launchGate;
         this.eventCount++;
 
         // Session activity & 30-min idle rotation. Session events don't count as activity
         // (they're emitted *by* the lifecycle), so they never re-trigger rotation.
         if (!name.startsWith('session.')) {
             const now = Date.now();
-            if (this.lastActivity !== undefined && now - this.lastActivity > SESSION_IDLE_MS) {
+            // not while rotating: the closing screen.duration is logged from inside the rotation
+            if (this.lastActivity !== undefined && now - this.lastActivity > SESSION_IDLE_MS && !this.rotating) {
                 await this.rotateSession();
             }
             this.lastActivity = now;
             this.sessionEventCount++;
-            if (name === 'app.crash') this.errorCount++;
+            if (name === 'app.crash' && !UNCOUNTED_SEVERITIES.has(data?.['crash.severity'])) this.errorCount++;
+            this.checkpointSession();
         }
 
         // v3 allowlist: unknown names ship as custom_event, original kept as event.name
@@ -494,11 +923,17 @@ export class Telemetry {
         if (!isAllowed) attributes['event.name'] = name;
 
         // app.crash carries the trail of prior actions; other events extend the trail.
+        // Captured console output is the exception: context for whatever crashes next.
         if (eventName === 'app.crash') {
-            attributes['crash.breadcrumbs'] = this.breadcrumbs.toJSON();
+            this.groupCrash(attributes);
+            const cause = attributes['crash.cause'];
+            if (cause === 'ConsoleError' || cause === 'ConsoleWarn') {
+                this.pushBreadcrumb(consoleBreadcrumb(cause === 'ConsoleError' ? 'error' : 'warn', attributes['crash.message']));
+            }
         } else {
-            this.breadcrumbs.add({ name: eventName, timestamp: new Date().toISOString() });
+            this.pushBreadcrumb(eventBreadcrumb(eventName, attributes));
         }
+        this.saveRunMarker();   // keep the next launch's view of this run current (screen, pressure)
 
         const e: TelemetryEvent = {
             type: 'event',
@@ -519,31 +954,54 @@ export class Telemetry {
 
     }
 
+    /**
+     * Subscribe to event names as they're logged (before enrichment), plus `http.request.start`
+     * when an intercepted request is sent. Returns the unsubscribe.
+     */
+    public onEvent(listener: (name: string) => void): () => void {
+        this.eventListeners.add(listener);
+        return () => { this.eventListeners.delete(listener); };
+    }
+
+    /**
+     * An intercepted request was sent. Its `http.request` is only logged on completion, so
+     * listeners that need the start hear `http.request.start` now; nothing is queued.
+     */
+    public requestStarted(): void {
+        this.notifyListeners('http.request.start');
+    }
+
+    private notifyListeners(name: string): void {
+        for (const listener of this.eventListeners) {
+            try { listener(name); } catch (err) { debug.warn("Telemetry event listener failed:", err); }
+        }
+    }
+
+    /**
+     * Connectivity transition seen (NetworkChangeEmitter): re-collect network.* on the next
+     * event instead of serving the cached snapshot.
+     */
+    public refreshNetworkContext(): void {
+        this.context.invalidateNetwork();
+    }
+
     /**
      * Build the v3 Context block that rides on every event AND metric: the flattened
      * device/network snapshot, the caller's data, identity + session + sdk fields, and the
      * user profile. Shared by log() and logMetric() so both carry the identical iOS-clean set.
      */
     private async collectContext(data?: Record<string, any>): Promise<Record<string, any>> {
-        let deviceInfo: Record<string, any> = {};
-        let networkInfo: Record<string, any> = {};
-
-        try {
-            deviceInfo = (await this.deviceInfoHandler?.collect()) || {};
-        } catch (err) {
-            debug.warn("Telemetry: failed to fetch device info", err);
-        }
+        await this.ready;   // never ship an event before the persisted user.id is known
 
-        try {
-            networkInfo = (await this.networkInfoHandler?.collect()) || {};
-        } catch (err) {
-            debug.warn("Telemetry: failed to fetch network info", err);
-        }
+        // cached snapshots: device once per process, network until the next transition
+        const deviceInfo = await this.context.deviceInfo();
+        const networkInfo = await this.context.networkInfo();
 
         const attributes: Record<string, any> = {
             // deviceInfo already namespaces its own keys (app.*, device.*) — flatten flat
             ...this.flattenWithPrefix('', deviceInfo),
             ...this.flattenWithPrefix('network', networkInfo),
+            ...(this.sessionOpenSource ? { 'app.open_source': this.sessionOpenSource } : {}),
             ...this.flattenWithPrefix('', data || {}),
             'user.id': this.userId ?? null,
             'session.id': this.sessionId,
@@ -582,6 +1040,10 @@ export class Telemetry {
      */
     async logMetric(metricName: string, value: number, data?: Record<string, any>) {
         this.eventCount++;
+        if (metricName === 'memory_usage' && data?.['memory.pressure_level']) {
+            this.memoryPressure = data['memory.pressure_level'];   // OOMKill evidence for the run marker
+            this.saveRunMarker();
+        }
         const attributes = await this.collectContext(data);
 
         const m: TelemetryEvent = {
@@ -640,6 +1102,7 @@ export class Telemetry {
         try {
             await this.sender.send(toSend);
             this.sessionSequence++;   // acknowledged (2xx) batch — order a session's batches (#29)
+            this.checkpointSession();
         } catch (lastError) {
             if (this.sender.onFailure) {
                 try {
@@ -664,6 +1127,8 @@ export class Telemetry {
 
     async shutdown() {
         if (this.intervalId) clearInterval(this.intervalId);
+        await this.screens.suspend("session_end");
+        this.clearRunMarker();
         await this.flush();
     }
 
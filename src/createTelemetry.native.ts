@@ -8,6 +8,8 @@ export type TelemetryOpts = {
     endpoint?: string;
     captureConsole?: boolean;   // funnel console.error/warn into app.crash (default on, opt-out)
     debug?: boolean;            // SDK-internal diagnostics; off by default (#23)
+    stallThresholdMs?: number;  // JS-thread stall reported as app.crash Hang (ANR ≥5 s); default 2000
+    maxBreadcrumbs?: number;    // crash.breadcrumbs trail length; default 20
 };
 
 export function assertApiKey(apiKey?: string) {
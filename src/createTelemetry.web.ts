@@ -8,6 +8,10 @@ export type TelemetryOpts = {
     endpoint?: string;
     captureConsole?: boolean;   // funnel console.error/warn into app.crash (default on, opt-out)
     debug?: boolean;            // SDK-internal diagnostics; off by default (#23)
+    stallThresholdMs?: number;  // JS-thread stall reported as app.crash Hang (ANR ≥5 s); default 2000
+    maxBreadcrumbs?: number;    // crash.breadcrumbs trail length; default 20
+    resourceTimingNamespace?: "resource" | "metric";   // resource_timing keys; default "resource" (iOS)
+    captureInteractionText?: boolean;   // send clicked elements' visible text; off by default
 };
 
 export function assertApiKey(apiKey?: string) {
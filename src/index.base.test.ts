@@ -3,6 +3,9 @@ import { TelemetryBase } from "./index.base";
 import { TelemetryWeb } from "./index.web";
 import { TelemetryNative } from "./index.native";
 
+// index.native re-exports <TrackedScreen>, which imports View; RN's Flow source can't load here
+vi.mock("react-native", () => ({ View: "View" }));
+
 // A fake core that records every call, so we can assert the base forwards verbatim.
 function fakeCore() {
   return {
@@ -12,6 +15,7 @@ function fakeCore() {
     trackErrors: vi.fn(),
     setUserId: vi.fn(),
     generateUserId: vi.fn(() => "user_generated"),
+    resetUser: vi.fn(() => "user_reset"),
     setUserProfile: vi.fn(),
     setUserDetails: vi.fn(),
     updateUserProfile: vi.fn(),
@@ -75,16 +79,45 @@ describe("TelemetryBase delegation", () => {
     const t = new TestTelemetry(core);
 
     expect(await t.generateUserId()).toBe("user_generated");
+    expect(await t.resetUser()).toBe("user_reset");
     expect(await t.getUserProfile()).toEqual({ fullName: "Ada" });
   });
+
+  it("captureException / captureMessage log a handled app.crash with severity and screen", async () => {
+    const core = { ...fakeCore(), currentScreen: "Checkout" };
+    const t = new TestTelemetry(core);
+    const error = new Error("payment declined");
+
+    await t.captureException(error, {
+      level: "warning",
+      attributes: { "order.id": "o1", "crash.cause": "x", "crash.fingerprint": "f", "crash.breadcrumbs": "[]" },
+    });
+    await t.captureMessage("retrying payment");
+    await t.captureException("plain string");
+    await t.captureMessage("ledger corrupt", "fatal");
+
+    expect(core.log.mock.calls.map((c: any[]) => c[0])).toEqual(["app.crash", "app.crash", "app.crash", "app.crash"]);
+    const [exception, message, thrown, fatal] = core.log.mock.calls.map((c: any[]) => c[1]);
+    expect(exception).toMatchObject({
+      "crash.cause": "Handled", "crash.fatal": false, "crash.severity": "warning",
+      "crash.message": "payment declined", "crash.stacktrace": error.stack,
+      "crash.screen": "Checkout", "order.id": "o1",
+    });
+    expect(message).toMatchObject({ "crash.cause": "Handled", "crash.severity": "info", "crash.stacktrace": null });
+    expect(exception).not.toHaveProperty("crash.fingerprint");   // the app can't set crash.* keys
+    expect(exception).not.toHaveProperty("crash.breadcrumbs");
+    expect(thrown).toMatchObject({ "crash.message": "plain string", "crash.severity": "error", "crash.fatal": false });
+    expect(fatal).toMatchObject({ "crash.severity": "fatal", "crash.fatal": false });   // handled: never a fatal crash
+  });
 });
 
 describe("public API parity", () => {
   const shared = [
     "log", "flush", "shutdown", "trackErrors",
-    "setUserId", "generateUserId", "setUserProfile", "setUserDetails",
+    "setUserId", "generateUserId", "resetUser", "setUserProfile", "setUserDetails",
     "updateUserProfile", "getUserProfile", "clearUserProfile",
     "setUserName", "setUserContact", "identify",
+    "captureRenderError", "captureException", "captureMessage", "addBreadcrumb",
   ];
 
   it("both platform classes inherit the shared delegation from TelemetryBase", () => {
@@ -98,15 +131,17 @@ describe("public API parity", () => {
   });
 
   it("both expose the platform capture methods", () => {
-    for (const m of ["getDeviceInfo", "getNetworkInfo", "trackFrameDrops", "trackNetworkRequests", "trackMemoryUsage"]) {
+    for (const m of ["getDeviceInfo", "getNetworkInfo", "trackFrameDrops", "trackNetworkRequests", "trackMemoryUsage", "trackStalls"]) {
       expect(typeof (TelemetryWeb.prototype as any)[m]).toBe("function");
       expect(typeof (TelemetryNative.prototype as any)[m]).toBe("function");
     }
   });
 
-  it("web has autoTrackNavigation; native has its screen/route extras", () => {
-    expect(typeof (TelemetryWeb.prototype as any).autoTrackNavigation).toBe("function");
-    for (const m of ["screenStart", "screenEnd", "trackRoute", "attachNavigation"]) {
+  it("web has autoTrackNavigation + its web-only collectors; native has its screen/route extras", () => {
+    for (const m of ["autoTrackNavigation", "trackWebVitals", "trackPageLoad", "trackResourceTiming", "trackLongTasks", "trackInteractions"]) {
+      expect(typeof (TelemetryWeb.prototype as any)[m]).toBe("function");
+    }
+    for (const m of ["screenStart", "screenEnd", "trackRoute", "attachNavigation", "markRootLayout"]) {
       expect(typeof (TelemetryNative.prototype as any)[m]).toBe("function");
     }
   });
@@ -4,6 +4,9 @@
 // Platform-specific capture (getDeviceInfo, track*, navigation/screen) stays in the
 // subclasses because each imports a different platform adapter.
 
+import type { CaptureContext, CrashSeverity } from "./adapters/crashCapture";
+import type { BreadcrumbInput } from "./core/breadcrumbs";
+
 type ProfileInput = {
     userId?: string;
     fullName?: string;
@@ -40,6 +43,38 @@ export abstract class TelemetryBase {
         return inst.trackErrors(crashHandler, options);
     }
 
+    // Called by <TelemetryErrorBoundary>: app.crash (RenderError) with the component stack
+    async captureRenderError(error: unknown, info: { componentStack?: string | null; fallbackRendered: boolean }) {
+        const { buildRenderErrorAttributes } = await import("./adapters/crashCapture");
+        const inst = await this.instancePromise;
+        return inst.log("app.crash", buildRenderErrorAttributes(error, info, inst.currentScreen));
+    }
+
+    // Handled errors → app.crash (Handled, non-fatal, crash.severity) next to real crashes
+    async captureException(error: unknown, context?: CaptureContext) {
+        const { buildHandledAttributes } = await import("./adapters/crashCapture");
+        const inst = await this.instancePromise;
+        const err = error as { message?: unknown; stack?: unknown } | undefined;
+        return inst.log("app.crash", buildHandledAttributes(
+            { message: err?.message ?? String(error), stacktrace: err?.stack },
+            context?.level ?? "error",
+            context?.attributes,
+            inst.currentScreen,
+        ));
+    }
+
+    async captureMessage(message: string, level: CrashSeverity = "info") {
+        const { buildHandledAttributes } = await import("./adapters/crashCapture");
+        const inst = await this.instancePromise;
+        return inst.log("app.crash", buildHandledAttributes({ message }, level, undefined, inst.currentScreen));
+    }
+
+    // App-specific step for the crash trail ("payment submitted"); rides the next app.crash only
+    async addBreadcrumb(breadcrumb: BreadcrumbInput) {
+        const inst = await this.instancePromise;
+        inst.addBreadcrumb(breadcrumb);
+    }
+
     // ---------- User Profile Management ----------
 
     async setUserId(id: string) {
@@ -52,6 +87,12 @@ export abstract class TelemetryBase {
         return inst.generateUserId();
     }
 
+    // Logout: mint a fresh persisted anonymous user.id and clear identify()'d identity
+    async resetUser() {
+        const inst = await this.instancePromise;
+        return inst.resetUser();
+    }
+
     async setUserProfile(profile: ProfileInput) {
         const inst = await this.instancePromise;
         inst.setUserProfile(profile);
@@ -1,10 +1,29 @@
 // React Native telemetry implementation
 import { TelemetryBase } from "./index.base";
 import { debug, setDebug } from "./core/debug";
+import type { InteractionOptions } from "./adapters/interactionTarget";
+import type { StallWatchdogOptions } from "./adapters/stallWatchdog";
+import type { ScreenDisplayKind } from "./adapters/screenTiming";
+import type { AppStartTracker } from "./adapters/appStart";
+import type { TapAnalyzer } from "./adapters/tapAnalyzer";
 
 export { createTelemetry, type TelemetryOpts } from "./createTelemetry.native";
+export type { InteractionOptions } from "./adapters/interactionTarget";
+export { TelemetryErrorBoundary, type TelemetryErrorBoundaryProps, type ErrorBoundaryFallback, type FallbackProps } from "./TelemetryErrorBoundary";
+export type { CaptureContext, CrashSeverity } from "./adapters/crashCapture";
+export type { BreadcrumbInput, BreadcrumbCategory } from "./core/breadcrumbs";
+export type { ScreenDisplayKind } from "./adapters/screenTiming";
+export { useScreenReady, TrackedScreen, type ScreenReadyOptions, type TrackedScreenProps } from "./TrackedScreen.native";
+
+// how long the launch session.started waits for Linking's initial URL (app.open_source)
+const LAUNCH_URL_WAIT_MS = 1000;
 
 export class TelemetryNative extends TelemetryBase {
+    // app_start: cold/warm launch → first root/screen layout, hot foreground → next frame
+    private appStart: Promise<AppStartTracker | undefined>;
+    // rage taps across every interactionProps() root; one subscription per instance
+    private tapAnalyzer?: TapAnalyzer;
+
     constructor(opts?: {
         apiKey?: string;
         sender?: any;
@@ -13,9 +32,12 @@ export class TelemetryNative extends TelemetryBase {
         endpoint?: string;
         captureConsole?: boolean;
         debug?: boolean;
+        stallThresholdMs?: number;
+        maxBreadcrumbs?: number;
     }) {
         setDebug(opts?.debug ?? false);   // gate SDK console noise before anything logs (#23)
         super();
+        const sdkStart = Date.now();   // app_start fallback origin when RN has no startup markers
 
         debug.log("🌍 Running Native Telemetry");
         this.instancePromise = (async () => {
@@ -25,6 +47,7 @@ export class TelemetryNative extends TelemetryBase {
             const { replayFailedNative } = await import("./adapters/nativeSender");
             const { DeviceInfoTrackerNative } = await import("./adapters/native/deviceInfo.native");
             const { NetworkInfoTrackerNative } = await import("./adapters/native/networkInfo.native");
+            const { StorageNative } = await import("./adapters/native/storage.native");
 
             // device OS forms the device/session id suffix (ios|android)
             let platform: string | undefined;
@@ -32,8 +55,14 @@ export class TelemetryNative extends TelemetryBase {
                 ({ Platform: { OS: platform } } = await import("react-native") as any);
             } catch { /* non-RN context (e.g. tests) — omit the suffix */ }
 
+            const { IdentityStore } = await import("./core/identity");
+
+            // one identity store shared by core + device adapter: persisted user.id and device.id
+            const storage = new StorageNative();
+            const identity = new IdentityStore(storage);
+
             const networkInfoTrackerNative = new NetworkInfoTrackerNative();
-            const deviceInfoTrackerNative = new DeviceInfoTrackerNative();
+            const deviceInfoTrackerNative = new DeviceInfoTrackerNative(identity);
 
             const sender = opts?.sender ?? nativeSender(opts?.endpoint, opts?.apiKey);
 
@@ -45,6 +74,11 @@ export class TelemetryNative extends TelemetryBase {
                 platform,
                 deviceInfoHandler: deviceInfoTrackerNative,
                 networkInfoHandler: networkInfoTrackerNative,
+                storage,
+                identity,
+                maxBreadcrumbs: opts?.maxBreadcrumbs,
+                // native crashes / OS kills never reach JS — catch them on the next launch
+                detectUncleanExit: true,
             });
 
             // 🔄 recover failed events right after init
@@ -55,7 +89,16 @@ export class TelemetryNative extends TelemetryBase {
             return telemetry;
         })();
 
-        // session.started on init; AppState drives background→finalize, foreground→new session (#29)
+        this.appStart = this.trackAppStart(sdkStart).catch(err => {
+            debug.log("Native trackAppStart errors", err);
+            return undefined;
+        });
+        this.trackDeepLinks().catch(err => {
+            debug.log("Native trackDeepLinks errors", err);
+        });
+
+        // session.started on init (or resume of a live persisted session); AppState drives
+        // background→finalize, foreground→new session (#29)
         this.startSessionOnInit().catch(err => debug.warn("Native startSession failed:", err));
         this.attachAppState().catch(err => debug.warn("Native AppState attach failed:", err));
 
@@ -77,23 +120,39 @@ export class TelemetryNative extends TelemetryBase {
         this.trackMemoryUsage().catch(err => {
             debug.log("Native trackMemoryUsage errors", err);
         });
+        this.trackStalls({ thresholdMs: opts?.stallThresholdMs }).catch(err => {
+            debug.log("Native trackStalls errors", err);
+        });
     }
 
     private async startSessionOnInit() {
         const inst = await this.instancePromise;
-        await inst.startSession();
+        await inst.resumeOrStartSession(LAUNCH_URL_WAIT_MS);
+        (await this.appStart)?.sessionReady();
     }
 
     // Background → finalize (immediate flush). Foreground after background → fresh session. (#29)
+    // The open screen's dwell ends on background and restarts on return, so time away never counts.
     private async attachAppState() {
         const { AppState } = await import("react-native") as any;
         const inst = await this.instancePromise;
         let prev: string = AppState.currentState;
         AppState.addEventListener("change", (next: string) => {
             if (next === "background") {
-                inst.finalizeSession().catch((e: any) => debug.warn("finalizeSession failed:", e));
+                inst.screens.suspend("background")
+                    .then(() => inst.finalizeSession())
+                    .catch((e: any) => debug.warn("finalizeSession failed:", e));
             } else if (next === "active" && prev === "background") {
-                inst.newSession().catch((e: any) => debug.warn("newSession failed:", e));
+                const at = Date.now();
+                inst.screens.resume();
+                this.appStart.then((tracker) => {
+                    tracker?.foreground(at);
+                    // the UI is already mounted; a hot start ends when the next frame is drawn
+                    requestAnimationFrame(() => tracker?.rendered());
+                });
+                inst.newSession()
+                    .then(async () => (await this.appStart)?.sessionReady())
+                    .catch((e: any) => debug.warn("newSession failed:", e));
             }
             prev = next;
         });
@@ -109,10 +168,42 @@ export class TelemetryNative extends TelemetryBase {
         AppState.addEventListener("change", (next: string) => emitter.onState(next === "active"));
     }
 
+    // Linking → navigation (deep_link) and app.open_source on the session / foreground. The
+    // session never waits for the initial URL; its source is attached once that settles.
+    async trackDeepLinks() {
+        const { AppState, Linking } = await import("react-native") as any;
+        const { DeepLinkTracker } = await import("./adapters/deepLink");
+        const inst = await this.instancePromise;
+        const tracker = new DeepLinkTracker(inst);
+        AppState.addEventListener("change", (next: string) => tracker.onState(next === "active"));
+        Linking.addEventListener("url", ({ url }: { url: string }) => tracker.onLink(url));
+        inst.trackDeepLinks(tracker);
+        const initialUrl = await Linking.getInitialURL().catch(() => null);
+        if (initialUrl) tracker.onLink(initialUrl);
+        tracker.launchResolved();
+    }
+
+    private async trackAppStart(sdkStart: number) {
+        const { AppStartTracker, readStartupTiming } = await import("./adapters/appStart");
+        const inst = await this.instancePromise;
+        return new AppStartTracker(inst, readStartupTiming(), sdkStart);
+    }
+
+    // JS-thread stalls → app.crash Hang/ANR; paused in the background (timers suspend)
+    async trackStalls(options?: StallWatchdogOptions) {
+        const { AppState } = await import("react-native") as any;
+        const { StallWatchdog } = await import("./adapters/stallWatchdog");
+        const inst = await this.instancePromise;
+        const watchdog = new StallWatchdog(inst, options);
+        watchdog.onState(AppState.currentState === "active");   // seed current state
+        AppState.addEventListener("change", (next: string) => watchdog.onState(next === "active"));
+        return inst.trackStalls(watchdog);
+    }
+
     async getDeviceInfo() {
         const { DeviceInfoTrackerNative } = await import("./adapters/native/deviceInfo.native");
         const inst = await this.instancePromise;
-        const deviceInfoTrackerNative = new DeviceInfoTrackerNative();
+        const deviceInfoTrackerNative = new DeviceInfoTrackerNative(inst.getIdentity());
         return inst.getDeviceInfo(deviceInfoTrackerNative);
     }
 
@@ -161,14 +252,46 @@ export class TelemetryNative extends TelemetryBase {
         inst.recordRouteChange(from, to);
     }
 
+    // TTID / TTFD for the screen attachNavigation() last entered. Prefer useScreenReady() or
+    // <TrackedScreen>, which call this on first layout and when `ready` turns true. The first
+    // mark after launch can also be the "first render" that ends the cold/warm app_start.
+    async markScreenDisplayed(name: string, kind: ScreenDisplayKind) {
+        const at = Date.now();   // before the await: init may still be running
+        const inst = await this.instancePromise;
+        inst.screens.markDisplayed(name, kind, at);
+        (await this.appStart)?.rendered(at);
+    }
+
     // Best-effort native taps → user.interaction (#33). Spread the returned props on your
-    // app root <View>; each tap emits user.interaction with the current screen when known.
-    //   const props = await telemetry.interactionProps();
+    // app root <View>; each tap emits user.interaction with the current screen when known and
+    // the tapped component (testID/nativeID → target_id, accessibilityLabel/name → target_label).
+    // Repeated or unanswered taps also emit rage_tap / dead_tap; a React commit, navigation or
+    // request after the tap counts as an answer. The returned onLayout is markRootLayout(); keep it (or call it from your
+    // own onLayout) if the props are on the root by its first layout.
+    //   const props = await telemetry.interactionProps({ allow: ["testID"] });
     //   <View {...props}>{app}</View>
-    async interactionProps() {
+    async interactionProps(options?: InteractionOptions) {
         const inst = await this.instancePromise;
         const { InteractionEmitter } = await import("./adapters/interaction");
-        return new InteractionEmitter(inst).responderProps();
+        const { TapAnalyzer } = await import("./adapters/tapAnalyzer");
+        this.tapAnalyzer ??= new TapAnalyzer(inst);
+        return {
+            ...new InteractionEmitter(inst, options, this.tapAnalyzer).responderProps(),
+            onLayout: () => this.markRootLayout(),
+        };
+    }
+
+    // onLayout for the app root, usable from the first render (interactionProps() resolves
+    // after mount): the root's first layout ends the cold/warm app_start.
+    //   <View style={{ flex: 1 }} onLayout={() => telemetry.markRootLayout()}>…</View>
+    markRootLayout() {
+        this.markRendered();
+    }
+
+    // First render for app_start; only the first one after a launch counts
+    private markRendered() {
+        const at = Date.now();
+        this.appStart.then((tracker) => tracker?.rendered(at));
     }
 
     async attachNavigation(navigationRef: any) {
@@ -181,5 +304,14 @@ export class TelemetryNative extends TelemetryBase {
         const { NavigationTrackerNative } = await import("./adapters/native/navigationNative.native");
         const tracker = new NavigationTrackerNative(inst);
         tracker.attach(navigationRef);
+        // the container showing its first route is a first render for app_start
+        if (navigationRef.isReady?.()) {
+            this.markRendered();
+        } else {
+            const unsubscribe = navigationRef.addListener("state", () => {
+                unsubscribe?.();
+                this.markRendered();
+            });
+        }
     }
 }
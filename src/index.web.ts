@@ -1,8 +1,14 @@
 // src/index.web.ts
 import { TelemetryBase } from "./index.base";
 import { debug, setDebug } from "./core/debug";
+import type { ResourceTimingNamespace, ResourceTimingOptions } from "./adapters/web/resourceTiming.web";
+import type { ClickCaptureOptions } from "./adapters/web/clickCapture.web";
+import type { StallWatchdogOptions } from "./adapters/stallWatchdog";
 
 export { createTelemetry, type TelemetryOpts } from "./createTelemetry.web";
+export { TelemetryErrorBoundary, type TelemetryErrorBoundaryProps, type ErrorBoundaryFallback, type FallbackProps } from "./TelemetryErrorBoundary";
+export type { CaptureContext, CrashSeverity } from "./adapters/crashCapture";
+export type { BreadcrumbInput, BreadcrumbCategory } from "./core/breadcrumbs";
 
 export class TelemetryWeb extends TelemetryBase {
     constructor(opts?: {
@@ -13,6 +19,10 @@ export class TelemetryWeb extends TelemetryBase {
         endpoint?: string;
         captureConsole?: boolean;
         debug?: boolean;
+        resourceTimingNamespace?: ResourceTimingNamespace;
+        captureInteractionText?: boolean;
+        stallThresholdMs?: number;
+        maxBreadcrumbs?: number;
     }) {
         setDebug(opts?.debug ?? false);   // gate SDK console noise before anything logs (#23)
         super();
@@ -25,7 +35,13 @@ export class TelemetryWeb extends TelemetryBase {
 
             const { DeviceInfoTrackerWeb } = await import("./adapters/web/deviceInfo.web");
             const { NetworkInfoTrackerWeb } = await import("./adapters/web/networkInfo.web");
-            const deviceInfoTrackerWeb = new DeviceInfoTrackerWeb();
+            const { StorageWeb } = await import("./adapters/web/storage.web");
+            const { IdentityStore } = await import("./core/identity");
+
+            // one identity store shared by core + device adapter: persisted user.id and device.id
+            const storage = new StorageWeb();
+            const identity = new IdentityStore(storage);
+            const deviceInfoTrackerWeb = new DeviceInfoTrackerWeb(identity);
             const networkInfoTrackerWeb = new NetworkInfoTrackerWeb();
 
             const sender = opts?.sender ?? webSender(opts?.endpoint, opts?.apiKey);
@@ -39,12 +55,16 @@ export class TelemetryWeb extends TelemetryBase {
                 // device.platform="web" still rides as an attribute from the adapter.
                 deviceInfoHandler: deviceInfoTrackerWeb,
                 networkInfoHandler: networkInfoTrackerWeb,
+                storage,
+                identity,
+                maxBreadcrumbs: opts?.maxBreadcrumbs,
             });
 
             return telemetry;
         })();
 
-        // session.started on init (#29). Background/foreground via AppState is native-only.
+        // session.started on init, or resume of the persisted session after a quick reload (#29).
+        // Background/foreground via AppState is native-only.
         this.startSessionOnInit().catch(err => debug.warn("Web startSession failed:", err));
 
         this.trackErrors({ captureConsole: opts?.captureConsole }).catch(err => {
@@ -63,6 +83,24 @@ export class TelemetryWeb extends TelemetryBase {
         this.autoTrackNavigation().catch(err => {
             debug.log("Web autoTrackNavigation errors", err);
         });
+        this.trackWebVitals().catch(err => {
+            debug.log("Web trackWebVitals errors", err);
+        });
+        this.trackPageLoad().catch(err => {
+            debug.log("Web trackPageLoad errors", err);
+        });
+        this.trackResourceTiming({ namespace: opts?.resourceTimingNamespace }).catch(err => {
+            debug.log("Web trackResourceTiming errors", err);
+        });
+        this.trackLongTasks().catch(err => {
+            debug.log("Web trackLongTasks errors", err);
+        });
+        this.trackInteractions({ captureText: opts?.captureInteractionText }).catch(err => {
+            debug.log("Web trackInteractions errors", err);
+        });
+        this.trackStalls({ thresholdMs: opts?.stallThresholdMs }).catch(err => {
+            debug.log("Web trackStalls errors", err);
+        });
         this.attachAppLifecycle().catch(err => {
             debug.log("Web attachAppLifecycle errors", err);
         });
@@ -89,7 +127,7 @@ export class TelemetryWeb extends TelemetryBase {
 
     private async startSessionOnInit() {
         const inst = await this.instancePromise;
-        await inst.startSession();
+        await inst.resumeOrStartSession();
     }
 
     async trackFrameDrops() {
@@ -117,13 +155,65 @@ export class TelemetryWeb extends TelemetryBase {
         const { NavigationTrackerWeb } = await import("./adapters/web/navigationWeb.web");
         const inst = await this.instancePromise;
         const navigationTracker = new NavigationTrackerWeb(inst);
-        return inst.start(navigationTracker);
+        return inst.autoTrackNavigation(navigationTracker);
+    }
+
+    // LCP/FCP/CLS/INP/TTFB — web-only metrics (ADR-0004)
+    async trackWebVitals() {
+        const { WebVitalsTrackerWeb } = await import("./adapters/web/webVitals.web");
+        const inst = await this.instancePromise;
+        const webVitalsTracker = new WebVitalsTrackerWeb(inst);
+        return inst.trackWebVitals(webVitalsTracker);
+    }
+
+    // one page_load per hard navigation, from Navigation Timing (ADR-0004)
+    async trackPageLoad() {
+        const { PageLoadTrackerWeb } = await import("./adapters/web/pageLoad.web");
+        const inst = await this.instancePromise;
+        const pageLoadTracker = new PageLoadTrackerWeb(inst);
+        return inst.trackPageLoad(pageLoadTracker);
+    }
+
+    // resource_timing for script/img/css/fetch/xhr, capped per window (ADR-0004)
+    async trackResourceTiming(options?: ResourceTimingOptions) {
+        const { ResourceTimingTrackerWeb } = await import("./adapters/web/resourceTiming.web");
+        const inst = await this.instancePromise;
+        const resourceTimingTracker = new ResourceTimingTrackerWeb(inst, options);
+        return inst.trackResourceTiming(resourceTimingTracker);
+    }
+
+    // long_task from Long Animation Frames (or Long Tasks), throttled (ADR-0004)
+    async trackLongTasks() {
+        const { LongTaskTrackerWeb } = await import("./adapters/web/longTask.web");
+        const inst = await this.instancePromise;
+        const longTaskTracker = new LongTaskTrackerWeb(inst);
+        return inst.trackLongTasks(longTaskTracker);
+    }
+
+    // delegated DOM click capture → user.interaction with target_tag/target_class (#33)
+    async trackInteractions(options?: ClickCaptureOptions) {
+        const { ClickCaptureWeb } = await import("./adapters/web/clickCapture.web");
+        const inst = await this.instancePromise;
+        const clickCapture = new ClickCaptureWeb(inst, options);
+        return inst.trackInteractions(clickCapture);
+    }
+
+    // JS-thread stalls → app.crash Hang/ANR; paused while the tab is hidden (timers throttle)
+    async trackStalls(options?: StallWatchdogOptions) {
+        if (typeof document === "undefined") return;
+        const { StallWatchdog } = await import("./adapters/stallWatchdog");
+        const inst = await this.instancePromise;
+        const watchdog = new StallWatchdog(inst, options);
+        watchdog.onState(document.visibilityState === "visible");   // seed current state
+        document.addEventListener("visibilitychange", () =>
+            watchdog.onState(document.visibilityState === "visible"));
+        return inst.trackStalls(watchdog);
     }
 
     async getDeviceInfo() {
         const { DeviceInfoTrackerWeb } = await import("./adapters/web/deviceInfo.web");
         const inst = await this.instancePromise;
-        const deviceInfoTrackerWeb = new DeviceInfoTrackerWeb();
+        const deviceInfoTrackerWeb = new DeviceInfoTrackerWeb(inst.getIdentity());
         return inst.getDeviceInfo(deviceInfoTrackerWeb);
     }
 
@@ -4,7 +4,10 @@ import type { TelemetryEvent } from "./core/telemetry";
 
 // End-to-end through the public API: createTelemetry() → log() → fake Sender.
 // Background DOM adapters are fire-and-forget in the ctor and reject harmlessly under node.
-afterEach(() => vi.restoreAllMocks());
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
 
 function silenceConsole() {
   vi.spyOn(console, "log").mockImplementation(() => {});
@@ -66,4 +69,27 @@ describe("createTelemetry (web) — public API → wire", () => {
     expect(names).not.toContain("device_info");
     expect(names).not.toContain("network_info");
   });
+
+  it("refreshes the cached network.* context on connectivity events with the default wiring", async () => {
+    silenceConsole();
+    const listeners: Record<string, () => void> = {};
+    const navigator = { onLine: true };
+    vi.stubGlobal("navigator", navigator);
+    vi.stubGlobal("window", { addEventListener: (type: string, fn: () => void) => { listeners[type] = fn; } });
+
+    const sent: TelemetryEvent[] = [];
+    const sender = { send: async (e: TelemetryEvent[]) => { sent.push(...e); } };
+    const t = createTelemetry({ apiKey: "edge_integration", sender, batchSize: 50, flushIntervalMs: 0 });
+
+    await t.log("custom_event", { step: 1 });
+    await vi.waitFor(() => expect(listeners.offline).toBeDefined());
+    navigator.onLine = false;
+    listeners.offline();
+    await new Promise((r) => setTimeout(r, 0));
+    await t.log("custom_event", { step: 2 });
+    await t.flush();
+
+    const steps = sent.filter((e) => e.eventName === "custom_event");
+    expect(steps.map((e) => e.attributes!["network.isConnected"])).toEqual([true, false]);
+  });
 });
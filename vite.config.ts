@@ -10,7 +10,7 @@ export default defineConfig(({ mode }) => ({
         }),
     ],
     resolve: {
-        extensions: [".web.ts", ".web.js", ".ts", ".js", ".json"],
+        extensions: [".web.ts", ".web.js", ".ts", ".tsx", ".js", ".json"],
         alias: {
             ...(process.env.BUILD_TARGET === "web"
                 ? {
@@ -28,6 +28,8 @@ export default defineConfig(({ mode }) => ({
             entry: {
                 "index.web": path.resolve(__dirname, "src/index.web.ts"),
                 "index.native": path.resolve(__dirname, "src/index.native.ts"),
+                // Node CLI (bin: edge-telemetry-symbolicate); never imported by the SDK entries
+                "symbolicate": path.resolve(__dirname, "src/cli/main.ts"),
             },
             name: "ReactTelemetryLib",
             formats: ["es", "cjs"],
@@ -37,13 +39,15 @@ export default defineConfig(({ mode }) => ({
                 "react",
                 "react-dom",
                 "@react-native-async-storage/async-storage",
-                "react-native"
+                "react-native",
+                /^node:/,
             ],
             output: {
                 // Let Vite pick per-format extensions (es → .js, cjs → .cjs under
                 // "type":"module") so both entry builds are emitted instead of clobbering
                 // each other on a shared [name].js. Matches the package.json exports map.
                 manualChunks: undefined,
+                banner: (chunk) => (chunk.name === "symbolicate" ? "#!/usr/bin/env node" : ""),
                 assetFileNames: "assets/[name]-[hash][extname]",
             },
         },